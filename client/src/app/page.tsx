@@ -1,299 +1,375 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import UrlInput from '@/components/UrlInput';
 import SchemaUpload from '@/components/SchemaUpload';
 import LogConsole from '@/components/LogConsole';
-import { startTestGeneration, LogMessage } from '@/lib/api';
+import RunControls from '@/components/RunControls';
+import {
+  startTestGeneration,
+  reattachRun,
+  getRun,
+  cancelRun,
+  pauseRun,
+  resumeRun,
+  sendInstruction,
+  answerApproval,
+  LogMessage,
+  RunFile,
+} from '@/lib/api';
+
+// sessionStorage key of the run to reattach to after a page reload
+const ACTIVE_RUN_KEY = 'qa_app_active_run';
 
 export default function Home() {
   const [url, setUrl] = useState('');
   const [schema, setSchema] = useState('');
+  const [usePageObjects, setUsePageObjects] = useState(false);
   const [logs, setLogs] = useState<LogMessage[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [testFiles, setTestFiles] = useState<string[]>([]);
+  const [runFiles, setRunFiles] = useState<RunFile[]>([]); // created vs. modified, per file
   const [abortController, setAbortController] = useState<(() => void) | null>(null);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
   const [report, setReport] = useState<string | null>(null); // HTML content for DOCX-like download
 
-  const handleStart = () => {
-    if (!url.trim()) {
-      alert('Please enter a URL');
-      return;
-    }
+  const handleLog = (log: LogMessage) => {
+    setLogs((prev) => [...prev, log]);
+  };
 
-    setIsRunning(true);
-    setLogs([]);
-    setTestFiles([]);
-    setReport(null);
+  // Test files are absolute paths; run files are relative to the run's folder
+  const runFileOf = (file: string) =>
+    runFiles.find((item) => file.replace(/\\/g, '/').endsWith(`/${item.path}`));
+  const modifiedCount = runFiles.filter((item) => item.status === 'modified').length;
 
-    const cleanup = startTestGeneration(
-      { url, schema: schema || undefined },
-      (log) => {
-        setLogs((prev) => [...prev, log]);
-      },
-      (result) => {
-        setLogs((prev) => [...prev, result]);
-        setIsRunning(false);
-        if (result.testFiles) {
-          setTestFiles(result.testFiles);
-        }
+  // Actions the safety policy is holding: requested and not yet answered
+  const pendingApprovals = logs.reduce<LogMessage[]>((pending, log) => {
+    if (!log.approval) return pending;
+    const others = pending.filter((item) => item.approval?.id !== log.approval?.id);
+    return log.approval.status === 'pending' ? [...others, log] : others;
+  }, []);
 
-        // Build comprehensive, non-technical HTML report
-        const runTime = new Date();
-        const safe = (value: string | undefined) =>
-          (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-
-        const allLogs = [...logs, result];
-        
-        // Analyze logs to extract meaningful information
-        const extractSteps = (logs: LogMessage[]) => {
-          const steps: Array<{step: number, action: string, time: string, status: string}> = [];
-          let stepNum = 1;
-          
-          logs.forEach((log) => {
-            if (log.type === 'agent' && log.message?.includes('Thinking')) {
-              steps.push({
-                step: stepNum++,
-                action: 'Agent analyzing and planning next action',
-                time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
-                status: 'In Progress'
-              });
-            } else if (log.type === 'info' && log.message?.includes('Executing tool')) {
-              const toolMatch = log.message.match(/Executing tool: (\w+)/);
-              const toolName = toolMatch ? toolMatch[1] : 'Unknown tool';
-              let actionDesc = '';
-              
-              if (toolName.includes('navigate')) actionDesc = 'Navigating to a new page on the website';
-              else if (toolName.includes('click')) actionDesc = 'Clicking on a button or link';
-              else if (toolName.includes('fill')) actionDesc = 'Filling out a form field';
-              else if (toolName.includes('snapshot')) actionDesc = 'Taking a snapshot of the current page';
-              else if (toolName.includes('saveTestFile')) actionDesc = 'Creating a new test file';
-              else if (toolName.includes('runPlaywrightTests')) actionDesc = 'Running the generated tests';
-              else actionDesc = `Performing action: ${toolName}`;
-              
-              steps.push({
-                step: stepNum++,
-                action: actionDesc,
-                time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
-                status: 'Completed'
-              });
-            } else if (log.type === 'success' && log.message?.includes('Test file saved')) {
-              steps.push({
-                step: stepNum++,
-                action: 'Test file successfully created and saved',
-                time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
-                status: 'Success'
-              });
-            } else if (log.type === 'error') {
-              const errorMsg = log.message || log.error || JSON.stringify(log) || 'Unknown error';
-              steps.push({
-                step: stepNum++,
-                action: `Error encountered: ${errorMsg}`,
-                time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
-                status: 'Error'
-              });
-            }
+  const handleComplete = (result: LogMessage) => {
+    setLogs((prev) => [...prev, result]);
+    setIsRunning(false);
+    setIsPaused(false);
+    if (result.testFiles) {
+      setTestFiles(result.testFiles);
+    }
+    if (result.files) {
+      setRunFiles(result.files);
+    }
+
+    // Build comprehensive, non-technical HTML report
+    const runTime = new Date();
+    const safe = (value: string | undefined) =>
+      (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const allLogs = [...logs, result];
+    
+    // Analyze logs to extract meaningful information
+    const extractSteps = (logs: LogMessage[]) => {
+      const steps: Array<{step: number, action: string, time: string, status: string}> = [];
+      let stepNum = 1;
+      
+      logs.forEach((log) => {
+        if (log.type === 'agent' && log.message?.includes('Thinking')) {
+          steps.push({
+            step: stepNum++,
+            action: 'Agent analyzing and planning next action',
+            time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
+            status: 'In Progress'
           });
+        } else if (log.type === 'info' && log.message?.includes('Executing tool')) {
+          const toolMatch = log.message.match(/Executing tool: (\w+)/);
+          const toolName = toolMatch ? toolMatch[1] : 'Unknown tool';
+          let actionDesc = '';
           
-          return steps;
-        };
-
-        const extractWebsiteStructure = (logs: LogMessage[]) => {
-          const structure: {pages: string[], features: string[], flows: string[]} = {
-            pages: [],
-            features: [],
-            flows: []
-          };
+          if (toolName.includes('navigate')) actionDesc = 'Navigating to a new page on the website';
+          else if (toolName.includes('click')) actionDesc = 'Clicking on a button or link';
+          else if (toolName.includes('fill')) actionDesc = 'Filling out a form field';
+          else if (toolName.includes('snapshot')) actionDesc = 'Taking a snapshot of the current page';
+          else if (toolName.includes('saveTestFile')) actionDesc = 'Creating a new test file';
+          else if (toolName.includes('runPlaywrightTests')) actionDesc = 'Running the generated tests';
+          else actionDesc = `Performing action: ${toolName}`;
           
-          // Look for navigation patterns
-          const navLogs = logs.filter(l => l.message?.includes('navigate') || l.message?.includes('Navigating'));
-          navLogs.forEach(log => {
-            if (log.message?.includes('inventory')) structure.pages.push('Product Inventory Page');
-            if (log.message?.includes('cart')) structure.pages.push('Shopping Cart Page');
-            if (log.message?.includes('checkout')) structure.pages.push('Checkout Page');
-            if (log.message?.includes('login')) structure.pages.push('Login Page');
+          steps.push({
+            step: stepNum++,
+            action: actionDesc,
+            time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
+            status: 'Completed'
           });
-          
-          // Look for features
-          const clickLogs = logs.filter(l => l.message?.includes('click'));
-          if (clickLogs.length > 0) structure.features.push('Interactive buttons and links');
-          
-          const fillLogs = logs.filter(l => l.message?.includes('fill'));
-          if (fillLogs.length > 0) structure.features.push('Form inputs and data entry');
-          
-          // Look for flows
-          if (logs.some(l => l.message?.includes('login'))) {
-            structure.flows.push('User Login Flow');
-          }
-          if (logs.some(l => l.message?.includes('cart') || l.message?.includes('checkout'))) {
-            structure.flows.push('Shopping and Purchase Flow');
-          }
-          
-          return structure;
-        };
-
-        const steps = extractSteps(allLogs);
-        const websiteStructure = extractWebsiteStructure(allLogs);
-        
-        // Count test results
-        const testExecutionLogs = logs.filter(l => 
-          l.message?.includes('Test execution') || l.message?.includes('tests')
-        );
-        const passedTests = testExecutionLogs.filter(l => l.type === 'success').length;
-        const failedTests = testExecutionLogs.filter(l => l.type === 'warning' || l.type === 'error').length;
-
-        const htmlParts: string[] = [];
-        htmlParts.push('<!DOCTYPE html>');
-        htmlParts.push('<html><head><meta charset="UTF-8"><title>QA_APP Test Report</title>');
-        htmlParts.push(
-          '<style>body{font-family:Segoe UI,Arial,sans-serif;font-size:11pt;color:#333;line-height:1.6;max-width:900px;margin:40px auto;padding:20px;} ' +
-          'h1{color:#1e40af;border-bottom:3px solid #3b82f6;padding-bottom:10px;} ' +
-          'h2{color:#2563eb;margin-top:30px;margin-bottom:15px;font-size:16pt;} ' +
-          'h3{color:#3b82f6;margin-top:20px;margin-bottom:10px;font-size:14pt;} ' +
-          'table{border-collapse:collapse;width:100%;margin:15px 0;} ' +
-          'th,td{border:1px solid #d1d5db;padding:8px 12px;text-align:left;font-size:10pt;} ' +
-          'th{background-color:#f3f4f6;font-weight:600;color:#111;} ' +
-          '.meta-table th{width:180px;background:#e5e7eb;} ' +
-          '.status-success{color:#059669;font-weight:600;} ' +
-          '.status-error{color:#dc2626;font-weight:600;} ' +
-          '.status-in-progress{color:#d97706;font-weight:600;} ' +
-          'ul,ol{margin:10px 0;padding-left:25px;} ' +
-          'li{margin:5px 0;} ' +
-          '.summary-box{background:#eff6ff;border-left:4px solid #3b82f6;padding:15px;margin:20px 0;} ' +
-          '.feature-list{background:#f9fafb;padding:15px;border-radius:5px;margin:10px 0;}</style>'
-        );
-        htmlParts.push('</head><body>');
-        
-        htmlParts.push('<h1>QA_APP Automated Test Report</h1>');
-        
-        htmlParts.push('<div class="summary-box">');
-        htmlParts.push('<h2 style="margin-top:0;">Executive Summary</h2>');
-        htmlParts.push(`<p><strong>Website Tested:</strong> ${safe(url)}</p>`);
-        htmlParts.push(`<p><strong>Test Run Date:</strong> ${runTime.toLocaleDateString()} at ${runTime.toLocaleTimeString()}</p>`);
-        htmlParts.push(`<p><strong>Overall Status:</strong> <span class="${result.success === false ? 'status-error' : 'status-success'}">${result.success === false ? 'Test Generation Incomplete' : 'Test Generation Completed Successfully'}</span></p>`);
-        if (result.testFiles && result.testFiles.length > 0) {
-          htmlParts.push(`<p><strong>Number of Test Files Created:</strong> ${result.testFiles.length}</p>`);
-        }
-        htmlParts.push('</div>');
-
-        htmlParts.push('<h2>Website Structure Discovered</h2>');
-        htmlParts.push('<p>During the exploration phase, the automated agent discovered the following structure of the website:</p>');
-        
-        if (websiteStructure.pages.length > 0) {
-          htmlParts.push('<h3>Pages Found</h3>');
-          htmlParts.push('<ul>');
-          websiteStructure.pages.forEach(page => {
-            htmlParts.push(`<li>${safe(page)}</li>`);
+        } else if (log.type === 'success' && log.message?.includes('Test file saved')) {
+          steps.push({
+            step: stepNum++,
+            action: 'Test file successfully created and saved',
+            time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
+            status: 'Success'
           });
-          htmlParts.push('</ul>');
-        }
-        
-        if (websiteStructure.features.length > 0) {
-          htmlParts.push('<h3>Key Features Identified</h3>');
-          htmlParts.push('<ul>');
-          websiteStructure.features.forEach(feature => {
-            htmlParts.push(`<li>${safe(feature)}</li>`);
+        } else if (log.type === 'error') {
+          const errorMsg = log.message || log.error || JSON.stringify(log) || 'Unknown error';
+          steps.push({
+            step: stepNum++,
+            action: `Error encountered: ${errorMsg}`,
+            time: log.timestamp ? new Date(log.timestamp).toLocaleString() : '',
+            status: 'Error'
           });
-          htmlParts.push('</ul>');
-        }
-        
-        if (websiteStructure.flows.length > 0) {
-          htmlParts.push('<h3>User Flows Discovered</h3>');
-          htmlParts.push('<ul>');
-          websiteStructure.flows.forEach(flow => {
-            htmlParts.push(`<li>${safe(flow)}</li>`);
-          });
-          htmlParts.push('</ul>');
         }
+      });
+      
+      return steps;
+    };
 
-        htmlParts.push('<h2>Detailed Step-by-Step Process</h2>');
-        htmlParts.push('<p>The following table shows every action the automated agent performed during this test run:</p>');
-        
-        if (steps.length > 0) {
-          htmlParts.push('<table>');
-          htmlParts.push('<tr><th>Step #</th><th>Action Performed</th><th>Time</th><th>Status</th></tr>');
-          steps.forEach(step => {
-            const statusClass = step.status === 'Success' ? 'status-success' : 
-                              step.status === 'Error' ? 'status-error' : 'status-in-progress';
-            htmlParts.push(
-              `<tr><td>${step.step}</td><td>${safe(step.action)}</td><td>${safe(step.time)}</td><td class="${statusClass}">${safe(step.status)}</td></tr>`
-            );
-          });
-          htmlParts.push('</table>');
-        } else {
-          htmlParts.push('<p><em>No detailed steps were captured in this run.</em></p>');
-        }
+    const extractWebsiteStructure = (logs: LogMessage[]) => {
+      const structure: {pages: string[], features: string[], flows: string[]} = {
+        pages: [],
+        features: [],
+        flows: []
+      };
+      
+      // Look for navigation patterns
+      const navLogs = logs.filter(l => l.message?.includes('navigate') || l.message?.includes('Navigating'));
+      navLogs.forEach(log => {
+        if (log.message?.includes('inventory')) structure.pages.push('Product Inventory Page');
+        if (log.message?.includes('cart')) structure.pages.push('Shopping Cart Page');
+        if (log.message?.includes('checkout')) structure.pages.push('Checkout Page');
+        if (log.message?.includes('login')) structure.pages.push('Login Page');
+      });
+      
+      // Look for features
+      const clickLogs = logs.filter(l => l.message?.includes('click'));
+      if (clickLogs.length > 0) structure.features.push('Interactive buttons and links');
+      
+      const fillLogs = logs.filter(l => l.message?.includes('fill'));
+      if (fillLogs.length > 0) structure.features.push('Form inputs and data entry');
+      
+      // Look for flows
+      if (logs.some(l => l.message?.includes('login'))) {
+        structure.flows.push('User Login Flow');
+      }
+      if (logs.some(l => l.message?.includes('cart') || l.message?.includes('checkout'))) {
+        structure.flows.push('Shopping and Purchase Flow');
+      }
+      
+      return structure;
+    };
 
-        htmlParts.push('<h2>Test Files Generated</h2>');
-        if (result.testFiles && result.testFiles.length > 0) {
-          htmlParts.push('<p>The following test files were automatically created:</p>');
-          htmlParts.push('<ul>');
-          result.testFiles.forEach((f) => {
-            const fileName = f.split(/[/\\]/).pop() || f;
-            htmlParts.push(`<li><strong>${safe(fileName)}</strong></li>`);
-          });
-          htmlParts.push('</ul>');
-        } else {
-          htmlParts.push('<p><em>No test files were generated in this run. This may indicate that the exploration phase encountered issues before test generation could begin.</em></p>');
-        }
+    const steps = extractSteps(allLogs);
+    const websiteStructure = extractWebsiteStructure(allLogs);
+    
+    // Count test results
+    const testExecutionLogs = logs.filter(l => 
+      l.message?.includes('Test execution') || l.message?.includes('tests')
+    );
+    const passedTests = testExecutionLogs.filter(l => l.type === 'success').length;
+    const failedTests = testExecutionLogs.filter(l => l.type === 'warning' || l.type === 'error').length;
 
-        htmlParts.push('<h2>Test Results Analysis</h2>');
-        if (testExecutionLogs.length > 0) {
-          htmlParts.push(`<p><strong>Tests Executed:</strong> ${passedTests + failedTests}</p>`);
-          htmlParts.push(`<p><strong>Tests Passed:</strong> <span class="status-success">${passedTests}</span></p>`);
-          if (failedTests > 0) {
-            htmlParts.push(`<p><strong>Tests Failed:</strong> <span class="status-error">${failedTests}</span></p>`);
-          }
-        } else {
-          htmlParts.push('<p><em>No test execution results were captured. The tests may not have been run, or the execution phase did not complete.</em></p>');
-        }
+    const htmlParts: string[] = [];
+    htmlParts.push('<!DOCTYPE html>');
+    htmlParts.push('<html><head><meta charset="UTF-8"><title>QA_APP Test Report</title>');
+    htmlParts.push(
+      '<style>body{font-family:Segoe UI,Arial,sans-serif;font-size:11pt;color:#333;line-height:1.6;max-width:900px;margin:40px auto;padding:20px;} ' +
+      'h1{color:#1e40af;border-bottom:3px solid #3b82f6;padding-bottom:10px;} ' +
+      'h2{color:#2563eb;margin-top:30px;margin-bottom:15px;font-size:16pt;} ' +
+      'h3{color:#3b82f6;margin-top:20px;margin-bottom:10px;font-size:14pt;} ' +
+      'table{border-collapse:collapse;width:100%;margin:15px 0;} ' +
+      'th,td{border:1px solid #d1d5db;padding:8px 12px;text-align:left;font-size:10pt;} ' +
+      'th{background-color:#f3f4f6;font-weight:600;color:#111;} ' +
+      '.meta-table th{width:180px;background:#e5e7eb;} ' +
+      '.status-success{color:#059669;font-weight:600;} ' +
+      '.status-error{color:#dc2626;font-weight:600;} ' +
+      '.status-in-progress{color:#d97706;font-weight:600;} ' +
+      'ul,ol{margin:10px 0;padding-left:25px;} ' +
+      'li{margin:5px 0;} ' +
+      '.summary-box{background:#eff6ff;border-left:4px solid #3b82f6;padding:15px;margin:20px 0;} ' +
+      '.feature-list{background:#f9fafb;padding:15px;border-radius:5px;margin:10px 0;}</style>'
+    );
+    htmlParts.push('</head><body>');
+    
+    htmlParts.push('<h1>QA_APP Automated Test Report</h1>');
+    
+    htmlParts.push('<div class="summary-box">');
+    htmlParts.push('<h2 style="margin-top:0;">Executive Summary</h2>');
+    htmlParts.push(`<p><strong>Website Tested:</strong> ${safe(url)}</p>`);
+    htmlParts.push(`<p><strong>Test Run Date:</strong> ${runTime.toLocaleDateString()} at ${runTime.toLocaleTimeString()}</p>`);
+    htmlParts.push(`<p><strong>Overall Status:</strong> <span class="${result.success === false ? 'status-error' : 'status-success'}">${result.success === false ? 'Test Generation Incomplete' : 'Test Generation Completed Successfully'}</span></p>`);
+    if (result.testFiles && result.testFiles.length > 0) {
+      htmlParts.push(`<p><strong>Number of Test Files Created:</strong> ${result.testFiles.length}</p>`);
+    }
+    htmlParts.push('</div>');
 
-        htmlParts.push('<h2>Agent Analysis and Summary</h2>');
-        if (result.message) {
-          htmlParts.push('<div class="summary-box">');
-          htmlParts.push(`<p>${safe(result.message).replace(/\n/g, '<br>')}</p>`);
-          htmlParts.push('</div>');
-        } else {
-          htmlParts.push('<p><em>The agent did not provide a detailed summary for this run.</em></p>');
-        }
+    htmlParts.push('<h2>Website Structure Discovered</h2>');
+    htmlParts.push('<p>During the exploration phase, the automated agent discovered the following structure of the website:</p>');
+    
+    if (websiteStructure.pages.length > 0) {
+      htmlParts.push('<h3>Pages Found</h3>');
+      htmlParts.push('<ul>');
+      websiteStructure.pages.forEach(page => {
+        htmlParts.push(`<li>${safe(page)}</li>`);
+      });
+      htmlParts.push('</ul>');
+    }
+    
+    if (websiteStructure.features.length > 0) {
+      htmlParts.push('<h3>Key Features Identified</h3>');
+      htmlParts.push('<ul>');
+      websiteStructure.features.forEach(feature => {
+        htmlParts.push(`<li>${safe(feature)}</li>`);
+      });
+      htmlParts.push('</ul>');
+    }
+    
+    if (websiteStructure.flows.length > 0) {
+      htmlParts.push('<h3>User Flows Discovered</h3>');
+      htmlParts.push('<ul>');
+      websiteStructure.flows.forEach(flow => {
+        htmlParts.push(`<li>${safe(flow)}</li>`);
+      });
+      htmlParts.push('</ul>');
+    }
 
-        htmlParts.push('<h2>Recommendations</h2>');
-        htmlParts.push('<ul>');
-        if (result.success && result.testFiles && result.testFiles.length > 0) {
-          htmlParts.push('<li>The test generation was successful. Review the generated test files to ensure they cover all critical user flows.</li>');
-          htmlParts.push('<li>Consider running these tests regularly to catch any regressions in the website functionality.</li>');
-        } else {
-          htmlParts.push('<li>The test generation encountered issues. Review the step-by-step process above to identify where the process stopped.</li>');
-          htmlParts.push('<li>Consider providing additional context or schema information if the website has complex authentication or business logic.</li>');
-          htmlParts.push('<li>Try running the test generation again, as some issues may be transient.</li>');
-        }
-        htmlParts.push('</ul>');
+    htmlParts.push('<h2>Detailed Step-by-Step Process</h2>');
+    htmlParts.push('<p>The following table shows every action the automated agent performed during this test run:</p>');
+    
+    if (steps.length > 0) {
+      htmlParts.push('<table>');
+      htmlParts.push('<tr><th>Step #</th><th>Action Performed</th><th>Time</th><th>Status</th></tr>');
+      steps.forEach(step => {
+        const statusClass = step.status === 'Success' ? 'status-success' : 
+                          step.status === 'Error' ? 'status-error' : 'status-in-progress';
+        htmlParts.push(
+          `<tr><td>${step.step}</td><td>${safe(step.action)}</td><td>${safe(step.time)}</td><td class="${statusClass}">${safe(step.status)}</td></tr>`
+        );
+      });
+      htmlParts.push('</table>');
+    } else {
+      htmlParts.push('<p><em>No detailed steps were captured in this run.</em></p>');
+    }
 
-        htmlParts.push('<hr style="margin:40px 0;border:none;border-top:1px solid #d1d5db;">');
-        htmlParts.push(`<p style="color:#6b7280;font-size:9pt;text-align:center;">Report generated by QA_APP on ${runTime.toLocaleDateString()} at ${runTime.toLocaleTimeString()}</p>`);
-        htmlParts.push('</body></html>');
+    htmlParts.push('<h2>Test Files Generated</h2>');
+    if (result.testFiles && result.testFiles.length > 0) {
+      htmlParts.push('<p>The following test files were automatically created:</p>');
+      htmlParts.push('<ul>');
+      result.testFiles.forEach((f) => {
+        const fileName = f.split(/[/\\]/).pop() || f;
+        htmlParts.push(`<li><strong>${safe(fileName)}</strong></li>`);
+      });
+      htmlParts.push('</ul>');
+    } else {
+      htmlParts.push('<p><em>No test files were generated in this run. This may indicate that the exploration phase encountered issues before test generation could begin.</em></p>');
+    }
 
-        setReport(htmlParts.join(''));
-        setAbortController(null);
+    htmlParts.push('<h2>Test Results Analysis</h2>');
+    if (testExecutionLogs.length > 0) {
+      htmlParts.push(`<p><strong>Tests Executed:</strong> ${passedTests + failedTests}</p>`);
+      htmlParts.push(`<p><strong>Tests Passed:</strong> <span class="status-success">${passedTests}</span></p>`);
+      if (failedTests > 0) {
+        htmlParts.push(`<p><strong>Tests Failed:</strong> <span class="status-error">${failedTests}</span></p>`);
+      }
+    } else {
+      htmlParts.push('<p><em>No test execution results were captured. The tests may not have been run, or the execution phase did not complete.</em></p>');
+    }
+
+    htmlParts.push('<h2>Agent Analysis and Summary</h2>');
+    if (result.message) {
+      htmlParts.push('<div class="summary-box">');
+      htmlParts.push(`<p>${safe(result.message).replace(/\n/g, '<br>')}</p>`);
+      htmlParts.push('</div>');
+    } else {
+      htmlParts.push('<p><em>The agent did not provide a detailed summary for this run.</em></p>');
+    }
+
+    htmlParts.push('<h2>Recommendations</h2>');
+    htmlParts.push('<ul>');
+    if (result.success && result.testFiles && result.testFiles.length > 0) {
+      htmlParts.push('<li>The test generation was successful. Review the generated test files to ensure they cover all critical user flows.</li>');
+      htmlParts.push('<li>Consider running these tests regularly to catch any regressions in the website functionality.</li>');
+    } else {
+      htmlParts.push('<li>The test generation encountered issues. Review the step-by-step process above to identify where the process stopped.</li>');
+      htmlParts.push('<li>Consider providing additional context or schema information if the website has complex authentication or business logic.</li>');
+      htmlParts.push('<li>Try running the test generation again, as some issues may be transient.</li>');
+    }
+    htmlParts.push('</ul>');
+
+    htmlParts.push('<hr style="margin:40px 0;border:none;border-top:1px solid #d1d5db;">');
+    htmlParts.push(`<p style="color:#6b7280;font-size:9pt;text-align:center;">Report generated by QA_APP on ${runTime.toLocaleDateString()} at ${runTime.toLocaleTimeString()}</p>`);
+    htmlParts.push('</body></html>');
+
+    setReport(htmlParts.join(''));
+    setAbortController(null);
+    sessionStorage.removeItem(ACTIVE_RUN_KEY);
+  };
+
+  const handleError = (error: Error) => {
+    setLogs((prev) => [
+      ...prev,
+      {
+        type: 'error',
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
       },
-      (error) => {
-        setLogs((prev) => [
-          ...prev,
-          {
-            type: 'error',
-            message: `Error: ${error.message}`,
-            timestamp: new Date().toISOString(),
-          },
-        ]);
-        setIsRunning(false);
-        setAbortController(null);
+    ]);
+    setIsRunning(false);
+    setAbortController(null);
+    sessionStorage.removeItem(ACTIVE_RUN_KEY);
+  };
+
+  // Reattach to a run that was still streaming when the page was reloaded
+  useEffect(() => {
+    const activeRunId = sessionStorage.getItem(ACTIVE_RUN_KEY);
+    if (!activeRunId) return;
+
+    let unmounted = false;
+    let cleanup: (() => void) | null = null;
+    getRun(activeRunId)
+      .then((run) => {
+        if (unmounted) return;
+        setUrl(run.url);
+        setRunId(run.id);
+        setIsRunning(run.status === 'queued' || run.status === 'running');
+        setIsPaused(!!run.paused);
+        cleanup = reattachRun(run.id, 0, handleLog, handleComplete, handleError);
+        setAbortController(() => cleanup);
+      })
+      .catch(() => sessionStorage.removeItem(ACTIVE_RUN_KEY));
+
+    return () => {
+      unmounted = true;
+      cleanup?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleStart = () => {
+    if (!url.trim()) {
+      alert('Please enter a URL');
+      return;
+    }
+
+    setIsRunning(true);
+    setLogs([]);
+    setTestFiles([]);
+    setRunFiles([]);
+    setReport(null);
+    setRunId(null);
+    setIsPaused(false);
+
+    const cleanup = startTestGeneration(
+      { url, schema: schema || undefined, outputMode: usePageObjects ? 'page-objects' : undefined },
+      handleLog,
+      handleComplete,
+      handleError,
+      (id) => {
+        setRunId(id);
+        sessionStorage.setItem(ACTIVE_RUN_KEY, id);
       }
     );
 
     setAbortController(() => cleanup);
   };
 
-  const handleStop = () => {
+  const closeStream = () => {
     if (abortController) {
       abortController();
       setLogs((prev) => [
@@ -306,6 +382,78 @@ export default function Home() {
       ]);
       setIsRunning(false);
       setAbortController(null);
+      sessionStorage.removeItem(ACTIVE_RUN_KEY);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!runId) {
+      closeStream();
+      return;
+    }
+
+    // Cancel on the server; the stream delivers the final cancelled result
+    setLogs((prev) => [
+      ...prev,
+      {
+        type: 'warning',
+        message: 'Cancelling test generation...',
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+    try {
+      await cancelRun(runId);
+    } catch {
+      closeStream();
+    }
+  };
+
+  const reportControlError = (error: Error) => {
+    setLogs((prev) => [
+      ...prev,
+      {
+        type: 'error',
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  const handlePause = async () => {
+    if (!runId) return;
+    try {
+      await pauseRun(runId);
+      setIsPaused(true);
+    } catch (error) {
+      reportControlError(error as Error);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!runId) return;
+    try {
+      await resumeRun(runId);
+      setIsPaused(false);
+    } catch (error) {
+      reportControlError(error as Error);
+    }
+  };
+
+  const handleSendInstruction = async (message: string) => {
+    if (!runId) return;
+    try {
+      await sendInstruction(runId, message);
+    } catch (error) {
+      reportControlError(error as Error);
+    }
+  };
+
+  const handleAnswerApproval = async (approvalId: string, approved: boolean) => {
+    if (!runId) return;
+    try {
+      await answerApproval(runId, approvalId, approved);
+    } catch (error) {
+      reportControlError(error as Error);
     }
   };
 
@@ -396,6 +544,16 @@ export default function Home() {
                     onChange={setSchema}
                     disabled={isRunning}
                   />
+                  <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={usePageObjects}
+                      onChange={(e) => setUsePageObjects(e.target.checked)}
+                      disabled={isRunning}
+                      className="accent-[#a855f7] disabled:opacity-50"
+                    />
+                    Page objects <span className="text-gray-600 font-normal">(specs call page classes in pages/)</span>
+                  </label>
                 </div>
 
                 <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-dark-border">
@@ -449,6 +607,7 @@ export default function Home() {
                   </h3>
                   <span className="text-xs text-gray-500 font-mono">
                     {testFiles.length} file{testFiles.length === 1 ? '' : 's'}
+                    {runFiles.length > 0 && ` · ${runFiles.length - modifiedCount} created · ${modifiedCount} modified`}
                   </span>
                 </div>
                 {testFiles.length === 0 ? (
@@ -457,17 +616,28 @@ export default function Home() {
                   </p>
                 ) : (
                   <ul className="space-y-2 max-h-48 overflow-y-auto scrollbar-thin">
-                    {testFiles.map((file, idx) => (
-                      <li
-                        key={idx}
-                        className="flex items-center gap-3 rounded-lg glass p-3 neon-border hover:bg-[#a855f7]/5 transition-all"
-                      >
-                        <span className="h-2 w-2 rounded-full bg-[#10b981] shadow-[0_0_8px_rgba(16,185,129,0.6)]" />
-                        <span className="font-mono text-sm text-gray-300 truncate flex-1">
-                          {file}
-                        </span>
-                      </li>
-                    ))}
+                    {testFiles.map((file, idx) => {
+                      const runFile = runFileOf(file);
+                      return (
+                        <li
+                          key={idx}
+                          className="flex items-center gap-3 rounded-lg glass p-3 neon-border hover:bg-[#a855f7]/5 transition-all"
+                        >
+                          <span className="h-2 w-2 rounded-full bg-[#10b981] shadow-[0_0_8px_rgba(16,185,129,0.6)]" />
+                          <span className="font-mono text-sm text-gray-300 truncate flex-1">
+                            {file}
+                          </span>
+                          {runFile && (
+                            <span
+                              className={`text-xs font-mono ${runFile.status === 'modified' ? 'text-[#f59e0b]' : 'text-[#10b981]'}`}
+                              title={`Saved ${runFile.writes} time${runFile.writes === 1 ? '' : 's'} by this run`}
+                            >
+                              {runFile.status}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
                   </ul>
                 )}
               </div>
@@ -490,6 +660,17 @@ export default function Home() {
                     {logs.length} messages
                   </span>
                 </div>
+                {isRunning && (
+                  <RunControls
+                    isPaused={isPaused}
+                    disabled={!runId}
+                    onPause={handlePause}
+                    onResume={handleResume}
+                    onSendInstruction={handleSendInstruction}
+                    approvals={pendingApprovals}
+                    onAnswerApproval={handleAnswerApproval}
+                  />
+                )}
                 <div className="flex-1 min-h-[500px]">
                   <LogConsole logs={logs} />
                 </div>
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { LogMessage } from '@/lib/api';
+
+interface RunControlsProps {
+  isPaused: boolean;
+  disabled?: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onSendInstruction: (message: string) => Promise<void>;
+  approvals: LogMessage[]; // pending safety policy approvals
+  onAnswerApproval: (approvalId: string, approved: boolean) => Promise<void>;
+}
+
+export default function RunControls({
+  isPaused,
+  disabled,
+  onPause,
+  onResume,
+  onSendInstruction,
+  approvals,
+  onAnswerApproval,
+}: RunControlsProps) {
+  const [instruction, setInstruction] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    const message = instruction.trim();
+    if (!message) return;
+
+    setIsSending(true);
+    try {
+      await onSendInstruction(message);
+      setInstruction('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <>
+      {approvals.map((approval) => (
+        <div
+          key={approval.approval!.id}
+          className="flex flex-wrap items-center gap-3 mb-3 px-4 py-3 glass rounded-lg neon-border"
+        >
+          <span className="flex-1 min-w-[200px] text-sm text-[#f59e0b]">{approval.message}</span>
+          <button
+            type="button"
+            onClick={() => onAnswerApproval(approval.approval!.id, true)}
+            className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold glass text-[#10b981] neon-border hover:bg-[#10b981]/10 transition-all duration-300"
+          >
+            Approve
+          </button>
+          <button
+            type="button"
+            onClick={() => onAnswerApproval(approval.approval!.id, false)}
+            className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold glass text-[#ef4444] neon-border hover:bg-[#ef4444]/10 transition-all duration-300"
+          >
+            Deny
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <button
+          type="button"
+          onClick={isPaused ? onResume : onPause}
+          disabled={disabled}
+          className={`inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold glass transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+            isPaused
+              ? 'text-[#10b981] neon-border hover:bg-[#10b981]/10'
+              : 'text-[#f59e0b] neon-border hover:bg-[#f59e0b]/10'
+          }`}
+        >
+          {isPaused ? '▶ Resume' : '⏸ Pause'}
+        </button>
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled || isSending}
+          placeholder="Steer the agent, e.g. close the cookie banner and test the cart"
+          className="flex-1 min-w-[200px] px-4 py-2 glass rounded-lg text-sm neon-border text-gray-200 placeholder:text-gray-600 hover:bg-white/5 focus:bg-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+        />
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={disabled || isSending || !instruction.trim()}
+          className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold glass text-[#06b6d4] neon-border-cyan hover:bg-[#06b6d4]/10 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </div>
+    </>
+  );
+}
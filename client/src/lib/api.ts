@@ -0,0 +1,268 @@
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 2000;
+
+export interface LogMessage {
+  type: 'info' | 'success' | 'error' | 'warning' | 'agent' | 'complete';
+  id?: number;
+  message?: string;
+  timestamp?: string;
+  success?: boolean;
+  testFiles?: string[];
+  files?: RunFile[];
+  error?: string;
+  errorCode?: string;
+  approval?: { id: string; status: 'pending' | 'approved' | 'denied' };
+}
+
+// A file the run wrote, relative to its output folder. modified: the file, or an
+// earlier run's version of the same spec, existed before the run wrote it
+export interface RunFile {
+  path: string;
+  size: number;
+  savedAt: string;
+  status: 'created' | 'modified';
+  writes: number;
+}
+
+export interface TestGenerationRequest {
+  url: string;
+  schema?: string;
+  outputMode?: 'specs' | 'page-objects';
+}
+
+export interface RunInfo {
+  id: string;
+  url: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  startedAt: string;
+  finishedAt?: string;
+  queuePosition?: number;
+  paused?: boolean;
+}
+
+interface StreamHandlers {
+  onLog: (log: LogMessage) => void;
+  onComplete: (result: LogMessage) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Read SSE events from a response body. Resolves with the id of the last
+ * event seen and whether the final "complete" event arrived.
+ */
+async function readEventStream(
+  response: Response,
+  handlers: StreamHandlers,
+  lastEventId: number
+): Promise<{ lastEventId: number; completed: boolean }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      const dataLine = event.split('\n').find((line) => line.startsWith('data: '));
+      if (!dataLine) continue;
+
+      const log: LogMessage = JSON.parse(dataLine.slice(6));
+      if (typeof log.id === 'number') {
+        lastEventId = log.id;
+      }
+
+      if (log.type === 'complete') {
+        handlers.onComplete(log);
+        return { lastEventId, completed: true };
+      } else if (log.type === 'error' && log.error) {
+        handlers.onError(new Error(log.error));
+      } else {
+        handlers.onLog(log);
+      }
+    }
+  }
+
+  return { lastEventId, completed: false };
+}
+
+/**
+ * Follow a run's event stream, reconnecting with Last-Event-ID until the
+ * final event arrives or the reconnect attempts run out.
+ */
+async function followRun(
+  runId: string,
+  lastEventId: number,
+  handlers: StreamHandlers,
+  signal: AbortSignal
+): Promise<void> {
+  for (let attempt = 0; attempt < MAX_RECONNECT_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`${API_URL}/api/runs/${encodeURIComponent(runId)}/events`, {
+        headers: { 'Last-Event-ID': String(lastEventId) },
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Reconnect failed with status ${response.status}`);
+      }
+
+      const result = await readEventStream(response, handlers, lastEventId);
+      if (result.completed) return;
+      if (result.lastEventId > lastEventId) attempt = -1; // made progress, reset attempts
+      lastEventId = result.lastEventId;
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      if (attempt === MAX_RECONNECT_ATTEMPTS - 1) throw error;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+  }
+
+  throw new Error('Lost connection to the agent stream');
+}
+
+/**
+ * Start a test generation run and stream its logs over SSE.
+ * Reconnects automatically if the stream drops before the run finishes.
+ * Returns a function that closes the stream (the run itself keeps going).
+ */
+export function startTestGeneration(
+  request: TestGenerationRequest,
+  onLog: (log: LogMessage) => void,
+  onComplete: (result: LogMessage) => void,
+  onError: (error: Error) => void,
+  onRunStarted?: (runId: string) => void
+): () => void {
+  const controller = new AbortController();
+  const handlers = { onLog, onComplete, onError };
+
+  (async () => {
+    const response = await fetch(`${API_URL}/api/start-test`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Request failed with status ${response.status}`);
+    }
+
+    const runId = response.headers.get('X-Request-Id');
+    if (runId && onRunStarted) {
+      onRunStarted(runId);
+    }
+
+    let lastEventId = 0;
+    try {
+      const result = await readEventStream(response, handlers, lastEventId);
+      if (result.completed) return;
+      lastEventId = result.lastEventId;
+    } catch (error: any) {
+      if (error.name === 'AbortError' || !runId) throw error;
+    }
+
+    if (!runId) {
+      throw new Error('Agent stream closed before the run finished');
+    }
+    await followRun(runId, lastEventId, handlers, controller.signal);
+  })().catch((error: Error) => {
+    if (error.name === 'AbortError') return;
+    onError(error);
+  });
+
+  return () => controller.abort();
+}
+
+/**
+ * Reattach to an existing run (e.g. after a page reload), replaying every
+ * event after lastEventId. Returns a function that closes the stream.
+ */
+export function reattachRun(
+  runId: string,
+  lastEventId: number,
+  onLog: (log: LogMessage) => void,
+  onComplete: (result: LogMessage) => void,
+  onError: (error: Error) => void
+): () => void {
+  const controller = new AbortController();
+
+  followRun(runId, lastEventId, { onLog, onComplete, onError }, controller.signal).catch((error: Error) => {
+    if (error.name === 'AbortError') return;
+    onError(error);
+  });
+
+  return () => controller.abort();
+}
+
+/**
+ * Fetch a run's record from the server
+ */
+export async function getRun(runId: string): Promise<RunInfo> {
+  const response = await fetch(`${API_URL}/api/runs/${encodeURIComponent(runId)}`);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * POST to one of a run's control endpoints
+ */
+async function postRunControl(runId: string, action: string, body?: object): Promise<void> {
+  const response = await fetch(`${API_URL}/api/runs/${encodeURIComponent(runId)}/${action}`, {
+    method: 'POST',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `${action} failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Ask the server to cancel a running agent
+ */
+export function cancelRun(runId: string): Promise<void> {
+  return postRunControl(runId, 'cancel');
+}
+
+/**
+ * Pause a running agent before its next iteration
+ */
+export function pauseRun(runId: string): Promise<void> {
+  return postRunControl(runId, 'pause');
+}
+
+/**
+ * Resume a paused agent
+ */
+export function resumeRun(runId: string): Promise<void> {
+  return postRunControl(runId, 'resume');
+}
+
+/**
+ * Send an operator instruction to a running agent
+ */
+export function sendInstruction(runId: string, message: string): Promise<void> {
+  return postRunControl(runId, 'instructions', { message });
+}
+
+/**
+ * Approve or deny an action the server's safety policy is holding
+ */
+export function answerApproval(runId: string, approvalId: string, approved: boolean): Promise<void> {
+  return postRunControl(runId, `approvals/${encodeURIComponent(approvalId)}`, { approved });
+}
@@ -1,5 +1,15 @@
+import * as path from 'path';
 import { defineConfig, devices } from '@playwright/test';
 
+// Runs with an auth profile set these: the setup project logs in once and
+// saves a storageState that every spec then starts from
+const authSetup = process.env.QA_AUTH_SETUP;
+const authState = process.env.QA_AUTH_STATE;
+
+// Comma-separated browser projects: chromium, firefox, webkit
+const browsers = (process.env.BROWSERS || 'chromium').split(',').map(name => name.trim()).filter(Boolean);
+const browserDevices: Record<string, string> = { chromium: 'Desktop Chrome', firefox: 'Desktop Firefox', webkit: 'Desktop Safari' };
+
 export default defineConfig({
   testDir: './tests',
   fullyParallel: true,
@@ -8,13 +18,24 @@ export default defineConfig({
   workers: process.env.CI ? 1 : undefined,
   reporter: 'html',
   use: {
-    baseURL: 'http://localhost:3000',
+    // The whole suite spans targets: each run folder has its own config with
+    // the run's target as baseURL; here it comes from BASE_URL only
+    baseURL: process.env.BASE_URL,
     trace: 'on-first-retry',
   },
   projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
+    ...(authSetup ? [{
+      name: 'setup',
+      testDir: path.dirname(authSetup),
+      testMatch: /auth\.setup\.ts$/,
+    }] : []),
+    ...browsers.map(name => ({
+      name,
+      use: {
+        ...devices[browserDevices[name] || name],
+        ...(authState ? { storageState: authState } : {}),
+      },
+      dependencies: authSetup ? ['setup'] : [],
+    })),
   ],
 });
@@ -1,30 +1,45 @@
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { OpenAI } from 'openai';
-import { getCustomTools } from './tools';
-import { LogMessage } from './types';
+import { API_TOOL_NAMES, getCustomTools } from './tools';
+import { AgentResponse, AuthSession, LogMessage, OutputMode, RunAgentOptions, TestRunReport, ToolExecutionContext } from './types';
 import { getRateLimiter } from './rateLimiter';
-import * as os from 'os';
-import * as path from 'path';
-import * as fs from 'fs';
-import { execSync } from 'child_process';
+import { AgentError, ErrorCodes, cancellationError, throwIfCancelled } from './errors';
+import { MCPSession, getSessionPool } from './mcpSession';
+import { ChatCompletion, ChatMessage, ChatTool, LLMProvider, createLLMProvider } from './llmProvider';
+import { Cassette, RecordedRunOptions } from './cassette';
+import { formatReportForLLM } from './testReport';
+import { MAX_REPAIR_ATTEMPTS, RepairContext, RepairTracker, buildRepairContext, buildRepairPrompt, formatSnapshot } from './repair';
+import { RunWorkspace } from './workspace';
+import { crawlSite, getCrawlLimits, summarizeSiteMap } from './crawler';
+import { ScopePolicy, validateScope } from './scope';
+import { ensureLoggedIn, prepareAuthSession } from './authProfiles';
+import { Redactor, getRedactor } from './redaction';
+import { buildSiteProfilePrompt, getSiteProfileRegistry, neverClickPolicy } from './siteProfiles';
+import { PolicyContext, SafetyPolicy, getSafetyPolicyConfig } from './safetyPolicy';
+import { ApiCoverage, ApiSpec, buildApiSchemaPrompt, parseApiSchema } from './openapi';
+import { SelectorQualityReport, SnapshotIndex } from './selectorQuality';
+import { writeRunConfig } from './runConfig';
+
+export { AgentError, ErrorCodes } from './errors';
 
 const MAX_ITERATIONS = parseInt(process.env.MAX_ITERATIONS || '50', 10);
-const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
 const TOKENS_PER_MINUTE = parseInt(process.env.TOKENS_PER_MINUTE || '25000', 10);
 const TOOL_TIMEOUT_MS = 60000; // 60s timeout for tool execution
 const MAX_TOOL_RESULT_LENGTH = 4000; // Truncate large tool results
 const MAX_MESSAGES_HISTORY = 30; // Keep last N messages to prevent token explosion
+const APPROVAL_TIMEOUT_MS = parseInt(process.env.APPROVAL_TIMEOUT_MS || '300000', 10); // then the action is denied
 
-let mcpClient: Client | null = null;
-let mcpTransport: StdioClientTransport | null = null;
-let mcpInitializing = false;
+export const OUTPUT_MODES: OutputMode[] = ['specs', 'page-objects'];
+const DEFAULT_OUTPUT_MODE: OutputMode = process.env.OUTPUT_MODE === 'page-objects' ? 'page-objects' : 'specs';
 
 /**
  * Truncate tool result to reduce token usage
  */
 function truncateToolResult(result: any, toolName: string): string {
   let content = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+  // Test runs: counts plus failing tests only, never the full per-test report
+  if (toolName === 'runPlaywrightTests' && result?.result?.tests) {
+    content = (result.success ? '' : `${result.error}\n`) + formatReportForLLM(result.result);
+  }
   
   // Special handling for browser_snapshot - extract key info only
   if (toolName === 'browser_snapshot' && typeof result === 'object') {
@@ -54,6 +69,14 @@ function truncateToolResult(result: any, toolName: string): string {
   return content;
 }
 
+/**
+ * Short description of a tool call for safety policy logs
+ */
+function describeAction(toolName: string, args: any): string {
+  const target = args?.element || args?.url || args?.key;
+  return target ? `${toolName} "${target}"` : toolName;
+}
+
 /**
  * Create human-readable summary of tool execution for console
  */
@@ -65,8 +88,9 @@ function summarizeToolExecution(toolName: string, args: any, result: any): strin
       return `🖱️ Clicked: ${args.element || args.selector || 'element'}`;
     case 'browser_fill':
     case 'browser_type':
-      const maskedValue = args.text?.includes('password') || args.name?.includes('password') 
-        ? '****' 
+      // Known secrets are redacted centrally; this also hides unknown ones typed into secret fields
+      const maskedValue = /password|passcode|secret|token|api.?key/i.test(`${args.element || ''} ${args.name || ''} ${args.selector || ''}`)
+        ? '****'
         : (args.text || args.value || '').substring(0, 30);
       return `⌨️ Typed "${maskedValue}" into ${args.element || args.selector || 'field'}`;
     case 'browser_snapshot':
@@ -83,10 +107,22 @@ function summarizeToolExecution(toolName: string, args: any, result: any): strin
     case 'browser_close':
       return `🔒 Browser closed`;
     case 'saveTestFile':
+      if (result?.success === false && result?.result?.diagnostics) {
+        return `🚫 Test file rejected: ${args.filePath} (${result.result.diagnostics.length} problem(s))`;
+      }
+      if (result?.result?.duplicates) {
+        const duplicates = result.result.duplicates.map((match: any) => `${match.duplicateOf.file} › ${match.duplicateOf.title}`).join(', ');
+        return result.success
+          ? `💾 Saved test file: ${args.filePath} (♊ duplicates ${duplicates})`
+          : `🚫 Test file rejected: ${args.filePath} duplicates ${duplicates}`;
+      }
       return `💾 Saved test file: ${args.filePath}`;
     case 'runPlaywrightTests':
       const status = result?.success ? '✅ PASSED' : '❌ FAILED';
-      return `🧪 Tests executed: ${status}`;
+      const counts = result?.result?.summary;
+      return counts
+        ? `🧪 Tests executed: ${status} (${counts.passed} passed, ${counts.failed} failed, ${counts.flaky} flaky, ${counts.skipped} skipped)`
+        : `🧪 Tests executed: ${status}`;
     case 'listTestFiles':
       const count = result?.result?.files?.length || 0;
       return `📁 Found ${count} test files`;
@@ -98,7 +134,7 @@ function summarizeToolExecution(toolName: string, args: any, result: any): strin
 /**
  * Manage message history to prevent token explosion
  */
-function pruneMessageHistory(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): void {
+function pruneMessageHistory(messages: ChatMessage[]): void {
   if (messages.length <= MAX_MESSAGES_HISTORY + 2) return; // +2 for system + initial user msg
   
   // Keep system message (first), initial user message (second), and last N messages
@@ -111,157 +147,15 @@ function pruneMessageHistory(messages: OpenAI.Chat.Completions.ChatCompletionMes
   messages.push(systemMsg, initialUserMsg, ...recentMessages);
 }
 
-// Custom error types for better error handling
-export class AgentError extends Error {
-  constructor(
-    message: string,
-    public readonly code: string,
-    public readonly recoverable: boolean = false,
-    public readonly details?: any
-  ) {
-    super(message);
-    this.name = 'AgentError';
-  }
-}
-
-export const ErrorCodes = {
-  MCP_INIT_FAILED: 'MCP_INIT_FAILED',
-  MCP_CONNECTION_LOST: 'MCP_CONNECTION_LOST',
-  OPENAI_AUTH_ERROR: 'OPENAI_AUTH_ERROR',
-  OPENAI_RATE_LIMIT: 'OPENAI_RATE_LIMIT',
-  OPENAI_API_ERROR: 'OPENAI_API_ERROR',
-  TOOL_EXECUTION_FAILED: 'TOOL_EXECUTION_FAILED',
-  TOOL_TIMEOUT: 'TOOL_TIMEOUT',
-  MAX_ITERATIONS: 'MAX_ITERATIONS',
-  INVALID_INPUT: 'INVALID_INPUT',
-  UNKNOWN: 'UNKNOWN'
-} as const;
-
-/**
- * Initialize MCP client connection to Playwright MCP server
- */
-export async function initializeMCPClient(retryCount = 0): Promise<void> {
-  const MAX_RETRIES = 3;
-  
-  if (mcpClient) {
-    // Verify connection is still alive
-    try {
-      await mcpClient.listTools();
-      return; // Connection is good
-    } catch {
-      console.log('⚠️ MCP connection lost, reconnecting...');
-      await cleanupMCPClient();
-    }
-  }
-
-  if (mcpInitializing) {
-    // Wait for ongoing initialization
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    if (mcpClient) return;
-  }
-
-  mcpInitializing = true;
-
-  try {
-    const isWindows = os.platform() === 'win32';
-    let npxCommand = 'npx';
-    let npxArgs = ['-y', '@playwright/mcp@latest'];
-    
-    if (isWindows) {
-      const localNpxPath = path.join(__dirname, '..', 'node_modules', '.bin', 'npx.cmd');
-      
-      if (fs.existsSync(localNpxPath)) {
-        npxCommand = localNpxPath;
-        console.log(`✅ Found local npx at: ${localNpxPath}`);
-      } else {
-        let npmFound = false;
-        
-        try {
-          const nodeDir = path.dirname(process.execPath);
-          const npmPath = path.join(nodeDir, 'npm.cmd');
-          if (fs.existsSync(npmPath)) {
-            npxCommand = 'cmd.exe';
-            npxArgs = ['/c', npmPath, 'exec', '-y', '@playwright/mcp@latest'];
-            console.log(`✅ Using npm from node directory: ${npmPath}`);
-            npmFound = true;
-          }
-        } catch (e) { /* continue */ }
-        
-        if (!npmFound) {
-          try {
-            const npmPath = execSync('where npm.cmd', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] })
-              .trim().split('\n')[0].trim();
-            if (npmPath && fs.existsSync(npmPath)) {
-              npxCommand = 'cmd.exe';
-              npxArgs = ['/c', 'npm.cmd', 'exec', '-y', '@playwright/mcp@latest'];
-              npmFound = true;
-            }
-          } catch (e) { /* continue */ }
-        }
-        
-        if (!npmFound) {
-          npxCommand = 'cmd.exe';
-          npxArgs = ['/c', 'npm.cmd', 'exec', '-y', '@playwright/mcp@latest'];
-        }
-      }
-    }
-
-    console.log(`🔧 Initializing MCP client with: ${npxCommand} ${npxArgs.join(' ')}`);
-
-    mcpTransport = new StdioClientTransport({
-      command: npxCommand,
-      args: npxArgs
-    });
-
-    mcpClient = new Client({
-      name: 'qa-app-host',
-      version: '1.0.0'
-    }, {
-      capabilities: {}
-    });
-
-    // Add timeout to connection
-    const connectPromise = mcpClient.connect(mcpTransport);
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('MCP connection timeout')), 30000)
-    );
-    
-    await Promise.race([connectPromise, timeoutPromise]);
-    console.log('✅ MCP client connected successfully');
-    mcpInitializing = false;
-  } catch (error: any) {
-    mcpInitializing = false;
-    await cleanupMCPClient();
-    
-    if (retryCount < MAX_RETRIES) {
-      console.log(`⚠️ MCP init failed, retrying (${retryCount + 1}/${MAX_RETRIES})...`);
-      await new Promise(resolve => setTimeout(resolve, 2000 * (retryCount + 1)));
-      return initializeMCPClient(retryCount + 1);
-    }
-    
-    throw new AgentError(
-      `MCP initialization failed after ${MAX_RETRIES} attempts: ${error.message}`,
-      ErrorCodes.MCP_INIT_FAILED,
-      false,
-      { originalError: error.message }
-    );
-  }
-}
-
 /**
  * Get all available tools (MCP + custom)
  */
-async function getAllTools() {
-  if (!mcpClient) {
-    throw new Error('MCP client not initialized');
-  }
-
-  const mcpTools = await mcpClient.listTools();
-  const customTools = getCustomTools();
+async function getAllTools(session: MCPSession, customTools: ReturnType<typeof getCustomTools>): Promise<ChatTool[]> {
+  const mcpTools = await session.listTools();
 
   // Combine MCP tools with custom tools
   const allTools = [
-    ...mcpTools.tools.map(tool => ({
+    ...mcpTools.map(tool => ({
       type: 'function' as const,
       function: {
         name: tool.name,
@@ -279,14 +173,22 @@ async function getAllTools() {
     }))
   ];
 
-  return { allTools, customTools };
+  return allTools as ChatTool[];
 }
 
 /**
- * Execute with timeout wrapper
+ * Execute with timeout wrapper (also rejects as soon as the signal aborts)
  */
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  operation: string,
+  signal?: AbortSignal
+): Promise<T> {
+  throwIfCancelled(signal);
+
   let timeoutId: NodeJS.Timeout;
+  let onAbort: (() => void) | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
     timeoutId = setTimeout(() => {
       reject(new AgentError(
@@ -295,15 +197,20 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation:
         true
       ));
     }, timeoutMs);
+
+    if (signal) {
+      onAbort = () => reject(cancellationError(signal));
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
   });
 
   try {
-    const result = await Promise.race([promise, timeoutPromise]);
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
     clearTimeout(timeoutId!);
-    return result;
-  } catch (error) {
-    clearTimeout(timeoutId!);
-    throw error;
+    if (signal && onAbort) {
+      signal.removeEventListener('abort', onAbort);
+    }
   }
 }
 
@@ -313,16 +220,22 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation:
 async function executeTool(
   toolName: string,
   args: any,
-  customTools: ReturnType<typeof getCustomTools>
+  customTools: ReturnType<typeof getCustomTools>,
+  session: MCPSession,
+  context: ToolExecutionContext = {}
 ): Promise<any> {
+  const { signal, redactor } = context;
+  throwIfCancelled(signal);
+
   // Check if it's a custom tool
   const customTool = customTools.find(t => t.name === toolName);
   if (customTool) {
     try {
       return await withTimeout(
-        customTool.execute(args),
+        customTool.execute(args, context),
         TOOL_TIMEOUT_MS,
-        `Custom tool "${toolName}"`
+        `Custom tool "${toolName}"`,
+        signal
       );
     } catch (error: any) {
       if (error instanceof AgentError) throw error;
@@ -335,20 +248,15 @@ async function executeTool(
     }
   }
 
-  // Otherwise, execute via MCP
-  if (!mcpClient) {
-    throw new AgentError(
-      'MCP client not initialized',
-      ErrorCodes.MCP_CONNECTION_LOST,
-      true
-    );
-  }
-
+  // Otherwise, execute via the run's MCP session (which routes prefixed
+  // tools to their server)
   try {
     const result = await withTimeout(
-      mcpClient.callTool({ name: toolName, arguments: args }),
+      // The agent only sees [REDACTED:NAME] markers; the browser gets the real values
+      session.callTool(toolName, redactor ? redactor.reveal(args) : args, { signal }),
       TOOL_TIMEOUT_MS,
-      `MCP tool "${toolName}"`
+      `MCP tool "${toolName}"`,
+      signal
     );
 
     // Check if MCP returned an error in the result
@@ -377,7 +285,8 @@ async function executeTool(
     return result;
   } catch (error: any) {
     if (error instanceof AgentError) throw error;
-    
+    throwIfCancelled(signal);
+
     // Check for connection issues
     if (error.message?.includes('connection') || error.message?.includes('EPIPE')) {
       throw new AgentError(
@@ -398,59 +307,52 @@ async function executeTool(
 }
 
 /**
- * Classify OpenAI API errors
+ * Run the agent to explore a website and generate tests. The run's specs and
+ * manifest.json go into its own workspace directory. Secrets are redacted
+ * from everything the run logs or returns.
  */
-function classifyOpenAIError(error: any): AgentError {
-  const message = error.message || error.toString();
-  const status = error.status || error.statusCode;
-
-  if (status === 401 || message.includes('Invalid API key') || message.includes('Incorrect API key')) {
-    return new AgentError(
-      'OpenAI API key is invalid. Please check your OPENAI_API_KEY.',
-      ErrorCodes.OPENAI_AUTH_ERROR,
-      false
-    );
-  }
-
-  if (status === 429 || message.includes('rate limit') || message.includes('Rate limit')) {
-    return new AgentError(
-      'OpenAI rate limit exceeded. Waiting and retrying...',
-      ErrorCodes.OPENAI_RATE_LIMIT,
-      true
-    );
-  }
-
-  if (status === 400 && message.includes('model')) {
-    return new AgentError(
-      `Invalid model: ${OPENAI_MODEL}. Check your OPENAI_MODEL setting.`,
-      ErrorCodes.OPENAI_API_ERROR,
-      false
-    );
+export async function runAgent(
+  targetUrl: string,
+  schema: string | undefined,
+  onLog: (log: LogMessage) => void,
+  options: RunAgentOptions = {}
+): Promise<AgentResponse> {
+  const workspace = new RunWorkspace(options.runId || `run_${Date.now()}`, targetUrl);
+  // A replay generates no files, so it gets no manifest
+  const writeManifest = options.cassette?.mode !== 'replay';
+  const redactor = getRedactor().fork();
+  const redactedLog = (log: LogMessage) => onLog(redactor.redact(log));
+
+  let result: AgentResponse;
+  try {
+    result = redactor.redact(await runAgentLoop(targetUrl, schema, redactedLog, options, workspace, redactor));
+    result.files = workspace.getFiles();
+  } catch (error: any) {
+    if (writeManifest) {
+      workspace.writeManifest({ success: false, error: redactor.redactText(error.message), errorCode: error.code || ErrorCodes.UNKNOWN });
+    }
+    throw error;
   }
 
-  if (status === 503 || message.includes('overloaded')) {
-    return new AgentError(
-      'OpenAI service is overloaded. Retrying...',
-      ErrorCodes.OPENAI_API_ERROR,
-      true
-    );
+  if (writeManifest) {
+    workspace.writeManifest(result);
   }
-
-  return new AgentError(
-    `OpenAI API error: ${message}`,
-    ErrorCodes.OPENAI_API_ERROR,
-    status >= 500 // Server errors are recoverable
-  );
+  return result;
 }
 
 /**
  * Run the agent loop to explore a website and generate tests
  */
-export async function runAgent(
+async function runAgentLoop(
   targetUrl: string,
   schema: string | undefined,
-  onLog: (log: LogMessage) => void
-): Promise<{ success: boolean; message?: string; testFiles?: string[]; error?: string; errorCode?: string }> {
+  onLog: (log: LogMessage) => void,
+  options: RunAgentOptions,
+  workspace: RunWorkspace,
+  redactor: Redactor
+): Promise<AgentResponse> {
+  const { signal, control, onQueuePosition, cassette: cassetteOptions } = options;
+
   // Validate inputs
   if (!targetUrl || typeof targetUrl !== 'string') {
     return {
@@ -470,17 +372,145 @@ export async function runAgent(
     };
   }
 
-  if (!process.env.OPENAI_API_KEY) {
+  // A matching site profile supplies hints, and the scope and auth profile
+  // unless the request sets them
+  const siteProfile = getSiteProfileRegistry().find(targetUrl);
+  const scope = options.scope ?? siteProfile?.scope;
+  const authProfile = options.authProfile ?? siteProfile?.authProfile;
+
+  const scopeError = validateScope(scope);
+  if (scopeError) {
+    return {
+      success: false,
+      error: `Invalid scope: ${scopeError}`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    };
+  }
+  // Navigation outside the run's scope is refused (by default: other origins)
+  const scopePolicy = new ScopePolicy(targetUrl, scope);
+  // An OpenAPI/Swagger schema is parsed into operations to write API specs
+  // for; any other schema text goes to the model as it is
+  let apiSpec: ApiSpec | null;
+  try {
+    apiSpec = schema ? parseApiSchema(schema, targetUrl) : null;
+  } catch (error: any) {
     return {
       success: false,
-      error: 'OPENAI_API_KEY environment variable is not set',
-      errorCode: ErrorCodes.OPENAI_AUTH_ERROR
+      error: error.message,
+      errorCode: error instanceof AgentError ? error.code : ErrorCodes.INVALID_INPUT
     };
   }
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
+  // Options from the environment; a replay uses the ones it was recorded with
+  let runOptions: RecordedRunOptions = {
+    outputMode: options.outputMode ?? DEFAULT_OUTPUT_MODE,
+    maxIterations: MAX_ITERATIONS,
+    crawl: getCrawlLimits(),
+    maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
+    safetyPolicy: getSafetyPolicyConfig()
+  };
+
+  // Replayed runs take completions and tool results from the cassette instead
+  let cassette: Cassette | undefined;
+  let llm: LLMProvider;
+  try {
+    if (cassetteOptions?.mode === 'replay') {
+      cassette = Cassette.load(cassetteOptions);
+      if (cassette.targetUrl !== targetUrl) {
+        throw new AgentError(
+          `Cassette was recorded for ${cassette.targetUrl}, not ${targetUrl}`,
+          ErrorCodes.INVALID_INPUT,
+          false
+        );
+      }
+      runOptions = cassette.runOptions ?? runOptions;
+      llm = cassette.wrapProvider(null);
+    } else {
+      llm = createLLMProvider();
+      if (cassetteOptions) {
+        cassette = Cassette.record(cassetteOptions, targetUrl, schema, runOptions, scope, authProfile);
+        llm = cassette.wrapProvider(llm);
+      }
+    }
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message,
+      errorCode: error instanceof AgentError ? error.code : ErrorCodes.LLM_CONFIG_ERROR
+    };
+  }
+  const { outputMode, maxIterations } = runOptions;
+
+  // Side-effecting actions are denied, held for the operator, or allowed
+  const safetyPolicy = new SafetyPolicy(siteProfile && neverClickPolicy(siteProfile), siteProfile?.policy, runOptions.safetyPolicy);
+
+  workspace.setModel(llm.name, llm.model);
+  onLog({
+    type: 'info',
+    message: `📁 Saving this run's tests to ${workspace.relativeDir}`,
+    timestamp: new Date().toISOString()
   });
+  // Replays write no files; their recorded tool results stand in for test runs
+  if (options.cassette?.mode !== 'replay') {
+    writeRunConfig(workspace);
+    onLog({
+      type: 'info',
+      message: `⚙️ Wrote ${workspace.relativeDir}/playwright.config.ts (baseURL ${new URL(targetUrl).origin}, override with BASE_URL)`,
+      timestamp: new Date().toISOString()
+    });
+  }
+  if (siteProfile) {
+    onLog({
+      type: 'info',
+      message: `🧭 Using site profile "${siteProfile.name}"`,
+      timestamp: new Date().toISOString()
+    });
+  }
+  if (outputMode === 'page-objects') {
+    onLog({
+      type: 'info',
+      message: '🧱 Output mode: page objects in pages/, called by the specs',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (apiSpec) {
+    onLog({
+      type: 'info',
+      message: `📜 API schema "${apiSpec.title}" (${apiSpec.format === 'openapi3' ? 'OpenAPI 3' : 'Swagger 2'}): ${apiSpec.operations.length} operations`,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Log in once with the run's auth profile; the browser session and the
+  // generated specs all start from the saved storageState
+  let auth: AuthSession | undefined;
+  if (authProfile && !cassette?.isReplay) {
+    try {
+      auth = prepareAuthSession(authProfile, workspace);
+      redactor.addSecret('QA_AUTH_PASSWORD', auth.env.QA_AUTH_PASSWORD);
+      onLog({
+        type: 'info',
+        message: `🔑 Logging in with auth profile "${authProfile}"`,
+        timestamp: new Date().toISOString()
+      });
+      const reused = await ensureLoggedIn(auth, signal);
+      onLog({
+        type: 'success',
+        message: reused
+          ? `🔑 Reusing the saved login for "${authProfile}"`
+          : `🔑 Logged in with "${authProfile}" and saved its storageState`,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw cancellationError(signal);
+      return {
+        success: false,
+        error: error.message,
+        errorCode: error instanceof AgentError ? error.code : ErrorCodes.AUTH_FAILED
+      };
+    }
+  }
 
   // Initialize rate limiter with SSE logger
   const rateLimiter = getRateLimiter({
@@ -490,8 +520,9 @@ export async function runAgent(
     maxRetryDelay: 60000
   });
   
-  // Wire up rate limiter to send logs to SSE stream
-  rateLimiter.setLogger((message: string) => {
+  // Wire up rate limiter to send logs to SSE stream (shared limiter, so
+  // every active run sees the waits)
+  const removeRateLimitLogger = rateLimiter.addLogger((message: string) => {
     onLog({
       type: 'info',
       message: message,
@@ -499,84 +530,387 @@ export async function runAgent(
     });
   });
 
-  // Initialize MCP client if not already done
-  await initializeMCPClient();
+  // Get a dedicated browser session, waiting in the queue if all are busy
+  // (a replayed run never touches the browser)
+  const sessionPool = getSessionPool();
+  let session: MCPSession | null = null;
+  if (!cassette?.isReplay) {
+    try {
+      session = await sessionPool.acquire(workspace.runId, {
+        signal,
+        storageState: auth?.stateFile,
+        onQueuePosition: (position) => {
+          onQueuePosition?.(position);
+          onLog({
+            type: 'info',
+            message: `⏳ Queued (position ${position}) - waiting for a free browser session`,
+            timestamp: new Date().toISOString()
+          });
+        }
+      });
+    } catch (error) {
+      removeRateLimitLogger();
+      throw signal?.aborted ? cancellationError(signal) : error;
+    }
+  }
+  onQueuePosition?.(0);
 
-  const { allTools, customTools } = await getAllTools();
+  const customTools = getCustomTools().filter(tool => apiSpec || !API_TOOL_NAMES.includes(tool.name));
+  let allTools: ChatTool[];
+  try {
+    allTools = cassette
+      ? await cassette.tools(() => getAllTools(session!, customTools))
+      : await getAllTools(session!, customTools);
+  } catch (error) {
+    removeRateLimitLogger();
+    if (session) await sessionPool.release(session);
+    throw error;
+  }
 
-  const isSauceDemo = /saucedemo\.com/i.test(targetUrl);
+  // Every tool call goes through the cassette when recording or replaying.
+  // Results are redacted before they are recorded or reach the model.
+  const snapshots = new SnapshotIndex(); // elements seen this run, for saveTestFile's selector rewrites
+  const toolContext: ToolExecutionContext = { signal, workspace, auth, redactor, apiSpec: apiSpec ?? undefined, snapshots };
+  const execute = async (toolName: string, toolArgs: any) =>
+    redactor.redact(await executeTool(toolName, toolArgs, customTools, session!, toolContext));
+  const callTool = (toolName: string, toolArgs: any): Promise<any> => cassette
+    ? cassette.callTool(toolName, toolArgs, () => execute(toolName, toolArgs), signal)
+    : execute(toolName, toolArgs);
+
+  // Hold an action the safety policy flags until the operator answers. The
+  // answer goes through the cassette, so a replay repeats it.
+  const requestApproval = async (toolName: string, toolArgs: any, reason: string): Promise<boolean> => {
+    const ask = async () => {
+      if (!control) return { approved: false };
+      const { id, decision } = control.requestApproval(APPROVAL_TIMEOUT_MS, signal);
+      onLog({
+        type: 'warning',
+        message: `✋ Approval needed to ${describeAction(toolName, toolArgs)} (${reason}) - approve or deny within ${Math.round(APPROVAL_TIMEOUT_MS / 1000)}s`,
+        timestamp: new Date().toISOString(),
+        approval: { id, status: 'pending' }
+      });
+      const approved = await decision;
+      onLog({
+        type: approved ? 'info' : 'warning',
+        message: approved ? `✅ Operator approved: ${describeAction(toolName, toolArgs)}` : `🚫 Not approved: ${describeAction(toolName, toolArgs)}`,
+        timestamp: new Date().toISOString(),
+        approval: { id, status: approved ? 'approved' : 'denied' }
+      });
+      return { approved };
+    };
+    const answer = cassette
+      ? await cassette.callTool('operatorApproval', { tool: toolName, args: toolArgs }, ask, signal)
+      : await ask();
+    return !!answer?.approved;
+  };
 
   // Build optimized system prompt (reduced token usage)
   const systemPrompt = `You are a QA Engineer AI agent. AUTOMATICALLY discover and test websites.
 
 PHASE 1: DISCOVERY
-1. Navigate using browser_navigate
-2. Map pages and interactive elements
+1. Start from the crawled site map in the first message, if any
+2. Navigate using browser_navigate only to inspect pages or fill gaps in the map
 3. Identify critical user flows
 
 PHASE 2: TEST GENERATION
 4. Write Playwright test suites
 5. Save with saveTestFile (timestamped filenames)
-${schema ? `\nSchema:\n${schema}\n` : ''}
-${isSauceDemo ? `SauceDemo: Test purchase flow (standard_user/secret_sauce) and locked_out_user. Use data-test selectors.` : ''}
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+6. Run them with runPlaywrightTests and fix failures
+${outputMode === 'page-objects' ? `
+PAGE OBJECTS (required for UI specs)
+- One page-object class per discovered page, saved with saveTestFile as pages/<Name>Page.ts (e.g. pages/LoginPage.ts exporting class LoginPage) before the specs that use it
+- A page object takes page: Page in its constructor, defines readonly Locator fields for the page's elements, and async high-level actions (login(username, password), addToCart(item)); import Page and Locator types from '@playwright/test'
+- Specs live next to the pages/ folder, import the classes (import { LoginPage } from './pages/LoginPage') and call their actions and locators - never raw page.fill/page.click selectors; assertions stay in the specs
+- When a selector changes, fix it in the page object only
+` : ''}${apiSpec ? `
+PHASE 3: API TESTS (alongside the UI specs)
+7. Write Playwright API specs for every operation below in *.api.spec.ts files, using the request fixture (async ({ request }) => ...), one file per resource
+8. Per operation: happy path; required-field validation (omit each required param/body field, expect 4xx); auth failure for (auth) operations (no or bad credentials, expect 401/403); response schema checks (status, content type, required properties and their types)
+9. Start each test title with the operation id in brackets, e.g. test('[listPets] returns pets', ...), and take the base URL from process.env.API_BASE_URL ?? '${apiSpec.baseUrl || targetUrl}'
+10. Use getApiOperation for an operation's schemas, and getApiCoverage before finishing to find operations still without tests
+
+${buildApiSchemaPrompt(apiSpec)}
+` : schema ? `\nSchema:\n${schema}\n` : ''}
+${siteProfile ? `${buildSiteProfilePrompt(siteProfile)}\n` : ''}SCOPE: Only navigate within ${scopePolicy.describe()}. Out-of-scope browser_navigate calls are blocked.
+SAFETY: Browser actions are checked against the ${safetyPolicy.describe()} safety policy, and so is runPlaywrightTests: the text and calls of this run's spec and page-object files count as the actions the tests perform. A blocked action or test run comes back as an error - do not retry it or work around it, and do not write tests that perform it.
+SECRETS: Values shown as [REDACTED:NAME] are secrets. Pass the marker unchanged to browser tools (the real value is filled in) and use process.env.NAME in test code.
+${authProfile ? `AUTH: The browser is already logged in (profile "${authProfile}"). Generated specs start logged in too, through the setup project's storageState - do not write login steps or credentials into tests.\n` : ''}
+CRITICAL RULES:
+- MODAL/POPUP HANDLING: After login or any action, CHECK for modal dialogs (password change, alerts, etc). If you see a modal with OK/Cancel/Close button, CLICK IT FIRST before doing anything else. Look for elements like: button containing "OK", "Close", "Cancel", "Dismiss", "Continue", or X icons.
+- If clicks fail repeatedly, a modal is likely blocking - take a snapshot and look for dismiss buttons.
+- Max 2 consecutive browser_navigate_back calls
+- Use data-test selectors when available
+- Navigate with paths relative to the target: page.goto('/'), page.goto('/cart.html'). The run's playwright.config.ts sets baseURL to ${new URL(targetUrl).origin}, and BASE_URL overrides it for other environments
+- In tests: page.on('dialog', d => d.accept())
+- Messages starting with "OPERATOR:" come from a human supervising the run - follow them over your current plan
+- Messages starting with "REPAIR:" report failing tests - patch only the named tests and re-run that spec before moving on
+- WHEN FINISHED: Call browser_close to close the browser window
+
+Response format (STRICT JSON):
+{
+  "summary": string,
+  "generatedFiles": string[],
+  "commandsRun": string[],
+  "results": { "status": "passed" | "failed" | "not-run", "details": string },
+  "nextSteps": string[]
+}`;
+
+  // The first user message follows once the crawl has mapped the site
+  const messages: ChatMessage[] = [
     {
       role: 'system',
       content: systemPrompt
-    },
-    {
-      role: 'user',
-      content: `Test this URL: ${targetUrl}
-{isSauceDemo ? '\n\nNote: This is SauceDemo - if you discover login functionality, test multiple user personas. If you discover a shopping cart, test the full purchase flow.' : ''}`
     }
   ];
+
   let iterations = 0;
   let consecutiveNavigateBack = 0;
   let consecutiveFailedClicks = 0;
   let consecutiveErrors = 0;
   const MAX_CONSECUTIVE_ERRORS = 3;
+  let testResults: TestRunReport | undefined; // from the latest test run
+  let pendingRepairReport: TestRunReport | undefined;
+  const repairTracker = new RepairTracker(runOptions.maxRepairAttempts);
+  const policyContext: PolicyContext = {}; // current page, as the safety policy sees it
+  const selectorQuality = new Map<string, SelectorQualityReport>(); // by file, from its last save
 
   // Helper to close browser and cleanup
   const cleanup = async () => {
     // Clear rate limiter logger
-    rateLimiter.setLogger(null);
-    
-    CRITICAL RULES:
-- MODAL/POPUP HANDLING: After login or any action, CHECK for modal dialogs (password change, alerts, etc). If you see a modal with OK/Cancel/Close button, CLICK IT FIRST before doing anything else. Look for elements like: button containing "OK", "Close", "Cancel", "Dismiss", "Continue", or X icons.
-- If clicks fail repeatedly, a modal is likely blocking - take a snapshot and look for dismiss buttons.
-- Max 2 consecutive browser_navigate_back calls
-- Use data-test selectors when available
-- In tests: page.on('dialog', d => d.accept())
-- WHEN FINISHED: Call browser_close to close the browser window
+    removeRateLimitLogger();
 
-Response format (STRICT JSON):
-{
-  "summary": string,
-  "generatedFiles": string[],
-  Response format (STRICT JSON):
-{
-  "summary": string,
-  "generatedFiles": string[],
-Response format (STRICT JSON):
-{
-  "summary": string,
-  "generatedFiles": string[],
-  "commandsRun": string[],
-  
     try {
-      if (mcpClient) {
+      if (session?.isConnected()) {
         await withTimeout(
-          mcpClient.callTool({ name: 'br
+          session.callTool('browser_close', {}),
+          10000,
+          'Browser close'
+        );
+        onLog({
+          type: 'info',
+          message: '🔒 Browser closed',
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch {
+      // Browser may already be closed
+    }
+
+    // Stop this run's MCP server and let the next queued run start
+    if (session) await sessionPool.release(session);
+
+    if (cassette && !cassette.isReplay) {
+      cassette.save();
+      onLog({
+        type: 'info',
+        message: `📼 Cassette saved to ${cassetteOptions!.path}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
+
+  // Repair phase: feed failing tests back with their failing line, locator
+  // and a fresh snapshot of the page they failed on
+  const runRepairPhase = async (report: TestRunReport) => {
+    const { toRepair, healed, exhausted } = repairTracker.recordRun(report);
+    const limit = repairTracker.attemptLimit;
+
+    for (const test of healed) {
+      onLog({ type: 'success', message: `🩹 Healed: ${test.file} › ${test.title}`, timestamp: new Date().toISOString() });
+    }
+    for (const test of exhausted) {
+      onLog({ type: 'warning', message: `🩹 Unhealed after ${limit} repair attempts: ${test.file} › ${test.title}`, timestamp: new Date().toISOString() });
+    }
+
+    // The failing source is read from the spec on disk, which a replay doesn't
+    // have, so the contexts go through the cassette like tool results
+    const contexts: RepairContext[] = [];
+    for (const { test, attempt } of toRepair) {
+      contexts.push(cassette
+        ? await cassette.callTool('repairContext', { file: test.file, title: test.title, attempt }, async () => buildRepairContext(test, attempt, targetUrl), signal)
+        : buildRepairContext(test, attempt, targetUrl));
+    }
+    const snapshots = new Map<string, string>();
+    for (const url of new Set(contexts.map(context => context.pageUrl!))) {
+      // A test can end up off-site; the repair snapshot obeys the same scope as the LLM
+      const outOfScope = scopePolicy.check(url);
+      if (outOfScope) {
+        onLog({ type: 'warning', message: `Skipped the repair snapshot of ${url}: out of scope (${outOfScope})`, timestamp: new Date().toISOString() });
+        continue;
+      }
+      // ...and the same safety policy; there is no operator to ask for approval here
+      const decision = safetyPolicy.evaluate('browser_navigate', { url }, policyContext);
+      if (decision.action !== 'allow') {
+        onLog({ type: 'warning', message: `🛡️ Skipped the repair snapshot of ${url}: ${decision.reason} (${decision.rule})`, timestamp: new Date().toISOString() });
+        continue;
+      }
+      try {
+        await callTool('browser_navigate', { url });
+        snapshots.set(url, formatSnapshot(await callTool('browser_snapshot', {})));
+      } catch (error: any) {
+        throwIfCancelled(signal);
+        if (error instanceof AgentError && !error.recoverable) throw error;
+        onLog({ type: 'warning', message: `Could not snapshot ${url} for repair: ${error.message}`, timestamp: new Date().toISOString() });
+      }
+    }
+
+    for (const { test, attempt } of contexts) {
+      onLog({ type: 'info', message: `🩹 Repair attempt ${attempt}/${limit}: ${test.file} › ${test.title}`, timestamp: new Date().toISOString() });
+    }
+
+    const parts: string[] = [];
+    if (contexts.length > 0) {
+      parts.push(buildRepairPrompt(contexts, snapshots, limit));
+    }
+    if (exhausted.length > 0) {
+      parts.push(`REPAIR: Stop repairing these tests, they reached the limit of ${limit} attempts: ${exhausted.map(test => `${test.file} › ${test.title}`).join('; ')}`);
+    }
+    if (parts.length > 0) {
+      messages.push({ role: 'user', content: parts.join('\n\n') });
+    }
+  };
+
+  try {
+    // Map the site breadth-first before the LLM starts, so its iterations go
+    // to writing tests rather than finding pages
+    let siteMapSummary = '';
+    const crawlLimits = runOptions.crawl;
+    if (crawlLimits.maxPages > 0) {
+      onLog({
+        type: 'info',
+        message: `🕸️ Crawling ${targetUrl} (up to ${crawlLimits.maxPages} pages, depth ${crawlLimits.maxDepth})`,
+        timestamp: new Date().toISOString()
+      });
+
+      const siteMap = await crawlSite(targetUrl, callTool, {
+        ...crawlLimits,
+        signal,
+        // Pages the safety policy would deny or hold for approval are left to the LLM's guarded calls
+        isInScope: (url) => scopePolicy.check(url) === null &&
+          safetyPolicy.evaluate('browser_navigate', { url }, policyContext).action === 'allow',
+        onPage: (page, crawled, maxPages) => onLog({
+          type: page.error ? 'warning' : 'info',
+          message: page.error
+            ? `🕸️ Could not crawl ${page.url}: ${page.error}`
+            : `🕸️ Crawled (${crawled}/${maxPages}): ${page.url}`,
+          timestamp: new Date().toISOString()
+        })
+      });
+
+      if (!cassette?.isReplay) {
+        workspace.writeArtifact('site-map.json', siteMap);
+      }
+      siteMapSummary = `\n\n${summarizeSiteMap(siteMap)}\n\nThis map comes from an automated crawl. Use it instead of re-discovering these pages; explore further only where it is incomplete.`;
+      onLog({
+        type: 'success',
+        message: `🕸️ Site map ready: ${siteMap.pages.length} pages${siteMap.truncated ? ' (page budget reached)' : ''}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: `Test this URL: ${targetUrl}${siteProfile?.firstMessage ? `\n\n${siteProfile.firstMessage}` : ''}${siteMapSummary}`
+    });
+
+    while (iterations < maxIterations) {
+      throwIfCancelled(signal);
+
+      // Operator steering: hold here while paused, then apply queued instructions
+      if (control?.isPaused()) {
         onLog({
           type: 'warning',
-          message: `OpenAI error (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS}): ${classifiedError.message}`,
+          message: '⏸️ Agent paused by operator',
           timestamp: new Date().toISOString()
         });
+        await control.waitWhilePaused(signal);
+        onLog({
+          type: 'info',
+          message: '▶️ Agent resumed by operator',
+          timestamp: new Date().toISOString()
+        });
+      }
 
-        if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      for (const instruction of control?.drainInstructions() || []) {
+        messages.push({
+          role: 'user',
+          content: `OPERATOR: ${instruction}`
+        });
+        onLog({
+          type: 'info',
+          message: `🧭 Operator instruction applied: ${instruction}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      iterations++;
+
+      onLog({
+        type: 'agent',
+        message: `Thinking... (iteration ${iterations}/${maxIterations})`,
+        timestamp: new Date().toISOString()
+      });
+
+      pruneMessageHistory(messages);
+
+      let response: ChatCompletion;
+      try {
+        const requestCompletion = () => llm.createChatCompletion({
+          messages,
+          tools: allTools
+        }, signal);
+
+        // Replayed completions cost nothing, so skip the rate limiter
+        response = cassette?.isReplay
+          ? await requestCompletion()
+          : await rateLimiter.executeWithRateLimit(
+            requestCompletion,
+            estimateRequestTokens(messages, allTools),
+            0,
+            signal
+          );
+        consecutiveErrors = 0;
+      } catch (error: any) {
+        throwIfCancelled(signal);
+        const classifiedError = llm.classifyError(error);
+        consecutiveErrors++;
+
+        onLog({
+          type: 'warning',
+          message: `LLM error (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS}): ${classifiedError.message}`,
+          timestamp: new Date().toISOString()
+        });
+
+        if (!classifiedError.recoverable || consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
           await cleanup();
           return {
             success: false,
+            error: classifiedError.message,
+            errorCode: classifiedError.code
+          };
+        }
+
+        continue;
+      }
+
+      const assistantMessage = response.choices[0]?.message;
+      if (!assistantMessage) {
+        continue;
+      }
+
+      messages.push(assistantMessage);
+
+      if (assistantMessage.content) {
+        onLog({
+          type: 'agent',
+          message: assistantMessage.content,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // No tool calls means the agent is done
+      if (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0) {
+        const rawFinal = assistantMessage.content || 'Agent completed without a summary';
         // Try to parse the model's final JSON for a clean, formatted summary.
         let formattedSummary = rawFinal;
         try {
@@ -597,12 +931,52 @@ Response format (STRICT JSON):
           timestamp: new Date().toISOString()
         });
 
+        const repairs = repairTracker.results();
+        if (repairs.length > 0) {
+          const healedCount = repairs.filter(repair => repair.status === 'healed').length;
+          onLog({
+            type: healedCount === repairs.length ? 'success' : 'warning',
+            message: `🩹 Repair summary: ${healedCount} healed, ${repairs.length - healedCount} unhealed\n` +
+              repairs.map(repair => `${repair.status === 'healed' ? '✅' : '❌'} ${repair.file} › ${repair.title} (${repair.attempts} attempt(s))`).join('\n'),
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // Coverage of the API schema's operations (before cleanup, like the file list)
+        let apiCoverage: ApiCoverage | undefined;
+        if (apiSpec) {
+          const coverageResult = await callTool('getApiCoverage', {});
+          if (coverageResult?.success) {
+            const { total, covered, operations } = coverageResult.result as ApiCoverage;
+            apiCoverage = { total, covered, operations };
+            const uncovered = operations.filter(op => op.files.length === 0);
+            onLog({
+              type: uncovered.length === 0 ? 'success' : 'warning',
+              message: `📊 API coverage: ${covered}/${total} operations have tests` +
+                (uncovered.length > 0 ? `\nWithout tests: ${uncovered.map(op => op.id).join(', ')}` : ''),
+              timestamp: new Date().toISOString()
+            });
+          }
+        }
+
+        const selectorReports = Array.from(selectorQuality.values());
+        if (selectorReports.length > 0) {
+          const brittle = selectorReports.reduce((sum, report) => sum + report.brittle, 0);
+          onLog({
+            type: brittle === 0 ? 'success' : 'warning',
+            message: `🎯 Selector quality: ${selectorReports.reduce((sum, report) => sum + report.rewritten, 0)} rewritten, ${brittle} brittle left\n` +
+              selectorReports.map(report => `${report.file}: ${report.score}/100 (${report.locators} locator(s)${report.brittle > 0 ? `, ${report.brittle} brittle` : ''})`).join('\n'),
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // Get list of test files (before cleanup so a recording includes it)
+        const testFilesResult = await callTool('listTestFiles', {});
+        cassette?.assertFinished();
+
         // Close browser
         await cleanup();
 
-        // Get list of test files
-        const { listTestFiles: getTestFiles } = await import('./tools');
-        const testFilesResult = await getTestFiles();
         const testFiles = testFilesResult.success && testFilesResult.result?.files
           ? testFilesResult.result.files
           : [];
@@ -610,12 +984,25 @@ Response format (STRICT JSON):
         return {
           success: true,
           message: formattedSummary,
-          testFiles: testFiles
+          testFiles: testFiles,
+          testResults,
+          repairs,
+          apiCoverage,
+          selectorQuality: selectorReports
         };
       }
 
       // Execute tool calls
       for (const toolCall of assistantMessage.tool_calls) {
+        // Every tool call needs a tool message, or the next request is rejected
+        if (toolCall.type !== 'function') {
+          messages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: JSON.stringify({ success: false, error: `Unsupported tool call type "${toolCall.type}". Call one of the listed functions.` })
+          });
+          continue;
+        }
         const toolName = toolCall.function.name;
         let toolArgs: any;
         
@@ -625,6 +1012,8 @@ Response format (STRICT JSON):
           toolArgs = {};
         }
 
+        throwIfCancelled(signal);
+
         onLog({
           type: 'info',
           message: `Executing tool: ${toolName}${toolArgs.filePath ? ` (${toolArgs.filePath})` : ''}`,
@@ -649,18 +1038,59 @@ Response format (STRICT JSON):
             consecutiveNavigateBack = 0;
           }
 
+          // Guard: keep navigation within the run's scope
+          if (toolName === 'browser_navigate') {
+            const outOfScope = scopePolicy.check(String(toolArgs.url || ''));
+            if (outOfScope) {
+              const msg = `Blocked: ${toolArgs.url} is out of scope (${outOfScope}). Only navigate within ${scopePolicy.describe()}.`;
+              onLog({ type: 'warning', message: msg, timestamp: new Date().toISOString() });
+              messages.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: JSON.stringify({ success: false, error: msg })
+              });
+              continue;
+            }
+          }
+
+          // Guard: the safety policy decides on side-effecting actions, including
+          // the ones the generated specs would perform in a test run
+          const decision = safetyPolicy.evaluate(toolName, toolArgs, toolName === 'runPlaywrightTests'
+            ? { ...policyContext, specSource: workspace.readSources() }
+            : policyContext);
+          if (decision.rule) {
+            onLog({
+              type: decision.action === 'allow' ? 'info' : 'warning',
+              message: `🛡️ Safety policy: ${decision.action} ${describeAction(toolName, toolArgs)} - ${decision.reason} (${decision.rule})`,
+              timestamp: new Date().toISOString()
+            });
+          }
+          if (decision.action !== 'allow') {
+            const approved = decision.action === 'approve' && await requestApproval(toolName, toolArgs, decision.reason);
+            if (!approved) {
+              const msg = decision.action === 'deny'
+                ? `Blocked by safety policy: ${decision.reason}. Do not retry this action or work around it.`
+                : `Blocked: the operator did not approve this action (${decision.reason}). Do not retry it.`;
+              messages.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: JSON.stringify({ success: false, error: msg })
+              });
+              continue;
+            }
+          }
+
           let toolResult;
           try {
-            toolResult = await executeTool(toolName, toolArgs, customTools);
+            toolResult = await callTool(toolName, toolArgs);
           } catch (toolError: any) {
             // Handle MCP connection loss - try to reconnect
             if (toolError.code === ErrorCodes.MCP_CONNECTION_LOST) {
               onLog({ type: 'warning', message: 'MCP connection lost, reconnecting...', timestamp: new Date().toISOString() });
               try {
-                await cleanupMCPClient();
-                await initializeMCPClient();
+                await session?.reconnect();
                 // Retry the tool call once
-                toolResult = await executeTool(toolName, toolArgs, customTools);
+                toolResult = await callTool(toolName, toolArgs);
               } catch (reconnectError: any) {
                 throw reconnectError;
               }
@@ -669,6 +1099,16 @@ Response format (STRICT JSON):
             }
           }
 
+          // Track the current page and its last snapshot for the safety policy
+          if (toolName.startsWith('browser_') && Array.isArray(toolResult?.content)) {
+            const text = toolResult.content.map((item: any) => item.text || '').join('\n');
+            policyContext.pageUrl = text.match(/Page URL: (\S+)/)?.[1] ?? policyContext.pageUrl;
+            if (text.includes('[ref=')) {
+              policyContext.snapshot = text;
+              snapshots.add(text);
+            }
+          }
+
           // Track click failures to detect modal blocking
           if (toolName === 'browser_click' || toolName === 'browser_press_key') {
             const resultStr = JSON.stringify(toolResult);
@@ -690,6 +1130,18 @@ Response format (STRICT JSON):
             consecutiveFailedClicks = 0;
           }
           
+          if (toolName === 'saveTestFile' && toolResult?.success && toolResult.result?.selectorQuality) {
+            const report: SelectorQualityReport = toolResult.result.selectorQuality;
+            selectorQuality.set(report.file, report);
+          }
+
+          if (toolName === 'runPlaywrightTests' && toolResult?.result?.tests) {
+            testResults = toolResult.result;
+            if (repairTracker.attemptLimit > 0) {
+              pendingRepairReport = toolResult.result;
+            }
+          }
+
           // Format result for LLM (truncated to save tokens)
           const resultContent = truncateToolResult(toolResult, toolName);
 
@@ -701,7 +1153,7 @@ Response format (STRICT JSON):
 
           // Log human-readable summary to console
           const summary = summarizeToolExecution(toolName, toolArgs, toolResult);
-          const logType = toolName === 'runPlaywrightTests' && !toolResult?.success ? 'warning' : 
+          const logType = (toolName === 'runPlaywrightTests' || toolName === 'saveTestFile') && !toolResult?.success ? 'warning' : 
                          toolName === 'saveTestFile' || toolName === 'runPlaywrightTests' ? 'success' : 'info';
           onLog({
             type: logType,
@@ -709,6 +1161,9 @@ Response format (STRICT JSON):
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
+          // Cancellation ends the run, handled by the outer catch
+          throwIfCancelled(signal);
+
           const isAgentError = error instanceof AgentError;
           const errorCode = isAgentError ? error.code : ErrorCodes.TOOL_EXECUTION_FAILED;
           const errorMessage = error.message || 'Unknown tool error';
@@ -733,26 +1188,35 @@ Response format (STRICT JSON):
             role: 'tool',
             tool_call_id: toolCall.id,
             content: JSON.stringify({ 
-              error: errorMessage,
+              error: redactor.redactText(errorMessage),
               recoverable: isAgentError ? error.recoverable : true
             })
           });
         }
       }
+
+      // After every tool result is in the history, start a repair cycle
+      if (pendingRepairReport) {
+        const report = pendingRepairReport;
+        pendingRepairReport = undefined;
+        await runRepairPhase(report);
+      }
     }
 
     // Max iterations reached - close browser
     await cleanup();
     onLog({
       type: 'warning',
-      message: `Agent stopped: reached maximum iterations (${MAX_ITERATIONS})`,
+      message: `Agent stopped: reached maximum iterations (${maxIterations})`,
       timestamp: new Date().toISOString()
     });
     
     return {
       success: false,
-      error: `Agent reached maximum iterations (${MAX_ITERATIONS}). Consider increasing MAX_ITERATIONS or simplifying the task.`,
-      errorCode: ErrorCodes.MAX_ITERATIONS
+      error: `Agent reached maximum iterations (${maxIterations}). Consider increasing MAX_ITERATIONS or simplifying the task.`,
+      errorCode: ErrorCodes.MAX_ITERATIONS,
+      testResults,
+      repairs: repairTracker.results()
     };
   } catch (error: any) {
     // Close browser on error
@@ -763,15 +1227,17 @@ Response format (STRICT JSON):
     const errorMessage = error.message || 'Unknown error occurred';
     
     onLog({
-      type: 'error',
-      message: `Agent error: ${errorMessage}`,
+      type: errorCode === ErrorCodes.CANCELLED ? 'warning' : 'error',
+      message: errorCode === ErrorCodes.CANCELLED ? `Agent stopped: ${errorMessage}` : `Agent error: ${errorMessage}`,
       timestamp: new Date().toISOString()
     });
 
     return {
       success: false,
       error: errorMessage,
-      errorCode: errorCode
+      errorCode: errorCode,
+      testResults,
+      repairs: repairTracker.results()
     };
   }
 }
@@ -805,19 +1271,3 @@ function estimateRequestTokens(messages: any[], tools?: any[]): number {
 
   return tokens;
 }
-
-/**
- * Cleanup MCP client connection
- */
-export async function cleanupMCPClient(): Promise<void> {
-  if (mcpTransport) {
-    try {
-      await mcpTransport.close();
-    } catch (error) {
-      console.error('Error closing MCP transport:', error);
-    }
-    mcpTransport = null;
-  }
-  mcpClient = null;
-}
-
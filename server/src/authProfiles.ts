@@ -0,0 +1,205 @@
+/**
+ * Named authentication profiles for apps behind a login
+ *
+ * This module provides:
+ * - Profiles from AUTH_PROFILES_FILE: login URL and hints for the username,
+ *   password and submit controls
+ * - Credentials from environment variables or the AUTH_SECRETS_FILE
+ * - A generated auth.setup.ts that logs in once and saves Playwright
+ *   storageState, run as the setup project of playwright.config.ts
+ * - Reuse of a recent storageState across runs of the same profile and target
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { AgentError, ErrorCodes } from './errors';
+import { RUN_CONFIG_FILE, relativeUrl } from './runConfig';
+import { SERVER_DIR, TESTS_DIR } from './tools';
+import { AuthSession } from './types';
+import { RunWorkspace } from './workspace';
+
+const execAsync = promisify(exec);
+
+const AUTH_PROFILES_FILE = process.env.AUTH_PROFILES_FILE || path.join(SERVER_DIR, 'auth-profiles.json');
+const AUTH_SECRETS_FILE = process.env.AUTH_SECRETS_FILE || path.join(SERVER_DIR, 'auth-secrets.json');
+const AUTH_STATE_MAX_AGE_MINUTES = parseInt(process.env.AUTH_STATE_MAX_AGE_MINUTES || '30', 10);
+const AUTH_STATE_DIR = path.join(TESTS_DIR, '.auth');
+const AUTH_SETUP_FILE = 'auth.setup.ts';
+const LOGIN_TIMEOUT = 120000; // 2 minutes for the setup project
+
+export interface AuthProfile {
+  name: string;
+  loginUrl: string;
+  usernameField?: string; // CSS selector, or the field's label/placeholder
+  passwordField?: string;
+  submitButton?: string; // CSS selector, or the button's text
+  successUrl?: string; // URL (glob) reached after a successful login
+  usernameEnv?: string; // defaults to AUTH_<NAME>_USERNAME
+  passwordEnv?: string; // defaults to AUTH_<NAME>_PASSWORD
+}
+
+const DEFAULT_USERNAME_FIELD = 'input[type="email"], input[autocomplete="username"], input[name*="user" i], input[name*="email" i], input[id*="user" i]';
+const DEFAULT_PASSWORD_FIELD = 'input[type="password"]';
+const DEFAULT_SUBMIT_BUTTON = 'button[type="submit"], input[type="submit"]';
+
+function readJsonFile(filePath: string): any {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new AgentError(`Cannot read ${path.basename(filePath)}: ${error.message}`, ErrorCodes.INVALID_INPUT, false);
+  }
+}
+
+/**
+ * Profiles defined in AUTH_PROFILES_FILE, keyed by name (no credentials)
+ */
+export function loadAuthProfiles(): Record<string, AuthProfile> {
+  const data = readJsonFile(AUTH_PROFILES_FILE);
+  const profiles: Record<string, AuthProfile> = {};
+  for (const [name, profile] of Object.entries<any>(data)) {
+    if (profile && typeof profile.loginUrl === 'string') {
+      profiles[name] = { ...profile, name };
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Look up a profile and its credentials: the profile's environment
+ * variables first, then its entry in AUTH_SECRETS_FILE
+ */
+export function resolveAuthProfile(name: string): { profile: AuthProfile; username: string; password: string } {
+  const profile = loadAuthProfiles()[name];
+  if (!profile) {
+    throw new AgentError(`Unknown auth profile "${name}"`, ErrorCodes.INVALID_INPUT, false);
+  }
+
+  const envPrefix = `AUTH_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const secrets = readJsonFile(AUTH_SECRETS_FILE)[name] || {};
+  const username = process.env[profile.usernameEnv || `${envPrefix}_USERNAME`] || secrets.username;
+  const password = process.env[profile.passwordEnv || `${envPrefix}_PASSWORD`] || secrets.password;
+
+  if (!username || !password) {
+    throw new AgentError(
+      `No credentials for auth profile "${name}": set ${profile.usernameEnv || `${envPrefix}_USERNAME`}/${profile.passwordEnv || `${envPrefix}_PASSWORD`} or add it to ${path.basename(AUTH_SECRETS_FILE)}`,
+      ErrorCodes.INVALID_INPUT,
+      false
+    );
+  }
+
+  return { profile, username, password };
+}
+
+/**
+ * Locator source for a hint: a CSS selector as is, otherwise the text of a
+ * field's label/placeholder or a button's name
+ */
+function locatorFor(hint: string | undefined, fallback: string, kind: 'field' | 'button'): string {
+  if (!hint) return `page.locator(${JSON.stringify(fallback)}).first()`;
+  if (/^(css=|xpath=|[#.[])|^[a-z]+[#.[:]/i.test(hint)) return `page.locator(${JSON.stringify(hint)}).first()`;
+  return kind === 'button'
+    ? `page.getByRole('button', { name: ${JSON.stringify(hint)} })`
+    : `page.getByLabel(${JSON.stringify(hint)}).or(page.getByPlaceholder(${JSON.stringify(hint)})).first()`;
+}
+
+/**
+ * Source of the setup spec that logs in and saves the storageState.
+ * Credentials come from the environment, never from the file. URLs on the
+ * target's origin are made relative, so the login follows BASE_URL like the
+ * run's specs do.
+ */
+function buildSetupSpec(profile: AuthProfile, targetUrl: string): string {
+  const loginUrl = relativeUrl(profile.loginUrl, targetUrl);
+  const successUrl = profile.successUrl && relativeUrl(profile.successUrl, targetUrl);
+  const successCheck = successUrl
+    ? `  await page.waitForURL(${JSON.stringify(successUrl)});`
+    : `  await expect(${locatorFor(profile.passwordField, DEFAULT_PASSWORD_FIELD, 'field')}).toBeHidden();`;
+
+  return `// Generated for auth profile "${profile.name}": logs in once and saves the
+// storageState every spec in this run starts from (see playwright.config.ts)
+import { ${profile.successUrl ? 'test as setup' : 'test as setup, expect'} } from '@playwright/test';
+
+setup('log in as ${profile.name.replace(/'/g, "\\'")}', async ({ page }) => {
+  await page.goto(${JSON.stringify(loginUrl)});
+  await ${locatorFor(profile.usernameField, DEFAULT_USERNAME_FIELD, 'field')}.fill(process.env.QA_AUTH_USERNAME!);
+  await ${locatorFor(profile.passwordField, DEFAULT_PASSWORD_FIELD, 'field')}.fill(process.env.QA_AUTH_PASSWORD!);
+  await ${locatorFor(profile.submitButton, DEFAULT_SUBMIT_BUTTON, 'button')}.click();
+${successCheck}
+  await page.context().storageState({ path: process.env.QA_AUTH_STATE! });
+});
+`;
+}
+
+/**
+ * Write the run's auth.setup.ts and return what test runs need to use it
+ */
+export function prepareAuthSession(name: string, workspace: RunWorkspace): AuthSession {
+  const { profile, username, password } = resolveAuthProfile(name);
+
+  const setupFile = path.join(workspace.dir, AUTH_SETUP_FILE);
+  const content = buildSetupSpec(profile, workspace.targetUrl);
+  fs.mkdirSync(workspace.dir, { recursive: true });
+  fs.writeFileSync(setupFile, content, 'utf-8');
+  workspace.recordFile(setupFile, Buffer.byteLength(content));
+
+  // One state per profile and target host, so a login to staging is never reused against production
+  const target = new URL(workspace.targetUrl);
+  const stateFile = path.join(AUTH_STATE_DIR, `${`${name}@${target.host}`.replace(/[^\w.@-]/g, '_')}.json`);
+  return {
+    profile: name,
+    setupFile,
+    stateFile,
+    configFile: path.join(workspace.dir, RUN_CONFIG_FILE),
+    baseURL: target.origin,
+    env: {
+      QA_AUTH_SETUP: setupFile,
+      QA_AUTH_STATE: stateFile,
+      QA_AUTH_USERNAME: username,
+      QA_AUTH_PASSWORD: password
+    }
+  };
+}
+
+/**
+ * Make sure the profile's storageState exists: reuse one saved in the last
+ * AUTH_STATE_MAX_AGE_MINUTES, otherwise run the setup project of the run's
+ * playwright.config.ts (against the run's target) to log in.
+ * Returns true if an existing state was reused.
+ */
+export async function ensureLoggedIn(auth: AuthSession, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const age = Date.now() - fs.statSync(auth.stateFile).mtimeMs;
+    if (age < AUTH_STATE_MAX_AGE_MINUTES * 60 * 1000) return true;
+  } catch {
+    // No saved state yet
+  }
+
+  fs.mkdirSync(AUTH_STATE_DIR, { recursive: true });
+  try {
+    const configFile = path.relative(SERVER_DIR, auth.configFile).split(path.sep).join('/');
+    await execAsync(`npx playwright test --config "${configFile}" --project=setup --reporter=line`, {
+      cwd: SERVER_DIR,
+      maxBuffer: 10 * 1024 * 1024,
+      timeout: LOGIN_TIMEOUT,
+      signal,
+      env: { ...process.env, ...auth.env, BASE_URL: auth.baseURL }
+    });
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    const output = `${error.stdout || ''}\n${error.stderr || ''}`.trim();
+    throw new AgentError(
+      `Login with auth profile "${auth.profile}" failed${error.killed ? ` (timed out after ${LOGIN_TIMEOUT / 1000}s)` : ''}`,
+      ErrorCodes.AUTH_FAILED,
+      false,
+      { output: output.substring(output.length - 2000) }
+    );
+  }
+
+  if (!fs.existsSync(auth.stateFile)) {
+    throw new AgentError(`Login with auth profile "${auth.profile}" saved no storageState`, ErrorCodes.AUTH_FAILED, false);
+  }
+  return false;
+}
@@ -0,0 +1,319 @@
+/**
+ * Record/replay cassettes for deterministic agent runs
+ *
+ * This module provides:
+ * - Recording every chat completion and tool call of a run to a JSON cassette
+ * - The run options the recording depends on (output mode and the limits and
+ *   safety policy read from the environment), which a replay runs with
+ * - Replaying a cassette into runAgent with no LLM, browser or network access
+ * - Mismatch detection when a replayed run diverges from the recording: its
+ *   tool calls, and the messages of each chat completion request
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentError, ErrorCodes } from './errors';
+import { ChatCompletion, ChatCompletionRequest, ChatMessage, ChatTool, LLMProvider, LLMProviderName } from './llmProvider';
+import { SafetyPolicyConfig } from './safetyPolicy';
+import { CassetteOptions, CrawlScope, OutputMode } from './types';
+
+const CASSETTE_VERSION = 1;
+const MAX_MISMATCH_EXCERPT = 120; // characters of each side shown in a request mismatch
+
+interface RecordedError {
+  message: string;
+  code: string;
+  recoverable: boolean;
+  details?: any;
+}
+
+export type CassetteInteraction =
+  | { type: 'chat'; request: { messages: ChatMessage[] }; response?: ChatCompletion; error?: RecordedError }
+  | { type: 'tool'; name: string; args: any; result?: any; error?: RecordedError };
+
+/**
+ * Run options that shape the interactions, so a replay must use the recorded
+ * ones rather than the current environment's
+ */
+export interface RecordedRunOptions {
+  outputMode: OutputMode;
+  maxIterations: number;
+  crawl: { maxDepth: number; maxPages: number };
+  maxRepairAttempts: number;
+  safetyPolicy: SafetyPolicyConfig;
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  targetUrl: string;
+  schema?: string;
+  scope?: CrawlScope;
+  authProfile?: string;
+  runOptions?: RecordedRunOptions; // missing from cassettes recorded before they were stored
+  provider: LLMProviderName;
+  model: string;
+  tools: ChatTool[];
+  interactions: CassetteInteraction[];
+}
+
+function toRecordedError(error: any): RecordedError {
+  if (error instanceof AgentError) {
+    return { message: error.message, code: error.code, recoverable: error.recoverable, details: error.details };
+  }
+  return { message: error?.message || String(error), code: ErrorCodes.UNKNOWN, recoverable: true };
+}
+
+function toAgentError(error: RecordedError): AgentError {
+  return new AgentError(error.message, error.code, error.recoverable, error.details);
+}
+
+const excerpt = (text: string, start: number) =>
+  JSON.stringify(text.substring(start, start + MAX_MISMATCH_EXCERPT)) + (text.length > start + MAX_MISMATCH_EXCERPT ? '...' : '');
+
+/**
+ * Where the messages of a replayed chat request first differ from the
+ * recorded ones, or undefined if they are the same
+ */
+function describeRequestMismatch(recorded: ChatMessage[], actual: ChatMessage[]): string | undefined {
+  for (let i = 0; i < Math.max(recorded.length, actual.length); i++) {
+    const expected = recorded[i] ? JSON.stringify(recorded[i]) : undefined;
+    const got = actual[i] ? JSON.stringify(actual[i]) : undefined;
+    if (expected === got) continue;
+    if (expected === undefined || got === undefined) {
+      return `the run sent ${actual.length} messages, the recording has ${recorded.length} (first difference at message ${i + 1}, ${(recorded[i] || actual[i]).role})`;
+    }
+
+    let offset = 0;
+    while (expected[offset] === got[offset]) offset++;
+    const start = Math.max(0, offset - 20);
+    return `message ${i + 1} (${actual[i].role}) differs at character ${offset} of its JSON: recorded ${excerpt(expected, start)}, got ${excerpt(got, start)}`;
+  }
+  return undefined;
+}
+
+/**
+ * A cassette being recorded or replayed for one run
+ */
+export class Cassette {
+  public readonly mode: CassetteOptions['mode'];
+  private filePath: string;
+  private data: CassetteFile;
+  private position = 0;
+
+  private constructor(options: CassetteOptions, data: CassetteFile) {
+    this.mode = options.mode;
+    this.filePath = options.path;
+    this.data = data;
+  }
+
+  /**
+   * Start a new recording
+   */
+  public static record(
+    options: CassetteOptions,
+    targetUrl: string,
+    schema: string | undefined,
+    runOptions: RecordedRunOptions,
+    scope?: CrawlScope,
+    authProfile?: string
+  ): Cassette {
+    return new Cassette(options, {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      targetUrl,
+      schema,
+      scope,
+      authProfile,
+      runOptions,
+      provider: 'openai',
+      model: '',
+      tools: [],
+      interactions: []
+    });
+  }
+
+  /**
+   * Load a recorded cassette for replay
+   */
+  public static load(options: CassetteOptions): Cassette {
+    let data: CassetteFile;
+    try {
+      data = JSON.parse(fs.readFileSync(options.path, 'utf-8'));
+    } catch (error: any) {
+      throw new AgentError(
+        `Cannot read cassette ${options.path}: ${error.message}`,
+        ErrorCodes.INVALID_INPUT,
+        false
+      );
+    }
+
+    if (data.version !== CASSETTE_VERSION || !Array.isArray(data.interactions)) {
+      throw new AgentError(
+        `Unsupported cassette format in ${options.path}`,
+        ErrorCodes.INVALID_INPUT,
+        false
+      );
+    }
+
+    return new Cassette(options, data);
+  }
+
+  public get isReplay(): boolean {
+    return this.mode === 'replay';
+  }
+
+  public get targetUrl(): string {
+    return this.data.targetUrl;
+  }
+
+  public get schema(): string | undefined {
+    return this.data.schema;
+  }
+
+  public get scope(): CrawlScope | undefined {
+    return this.data.scope;
+  }
+
+  public get authProfile(): string | undefined {
+    return this.data.authProfile;
+  }
+
+  public get runOptions(): RecordedRunOptions | undefined {
+    return this.data.runOptions;
+  }
+
+  /**
+   * Wrap the run's LLM provider: records its completions, or replaces it
+   * with the recorded ones when replaying
+   */
+  public wrapProvider(provider: LLMProvider | null): LLMProvider {
+    if (this.isReplay) {
+      return {
+        name: this.data.provider,
+        model: this.data.model,
+        createChatCompletion: async (request: ChatCompletionRequest) => {
+          const interaction = this.next('chat', 'chat completion');
+          // Copy first so the comparison sees exactly what recording would have stored
+          const mismatch = describeRequestMismatch(interaction.request.messages, JSON.parse(JSON.stringify(request.messages)));
+          if (mismatch) {
+            throw new AgentError(
+              `Cassette mismatch at interaction ${this.position}: chat request ${mismatch}`,
+              ErrorCodes.CASSETTE_MISMATCH,
+              false
+            );
+          }
+          if (interaction.error) throw toAgentError(interaction.error);
+          return interaction.response!;
+        },
+        classifyError: (error: any) => error instanceof AgentError
+          ? error
+          : new AgentError(error.message || String(error), ErrorCodes.LLM_API_ERROR, false)
+      };
+    }
+
+    const inner = provider!;
+    this.data.provider = inner.name;
+    this.data.model = inner.model;
+
+    return {
+      name: inner.name,
+      model: inner.model,
+      createChatCompletion: async (request: ChatCompletionRequest, signal?: AbortSignal) => {
+        // Copy the history now; the agent keeps mutating the array
+        const recorded = { messages: JSON.parse(JSON.stringify(request.messages)) };
+        try {
+          const response = await inner.createChatCompletion(request, signal);
+          this.data.interactions.push({ type: 'chat', request: recorded, response });
+          return response;
+        } catch (error) {
+          if (!signal?.aborted) {
+            this.data.interactions.push({ type: 'chat', request: recorded, error: toRecordedError(inner.classifyError(error)) });
+          }
+          throw error;
+        }
+      },
+      classifyError: (error: any) => inner.classifyError(error)
+    };
+  }
+
+  /**
+   * Get the tool list: recorded when replaying, otherwise loaded and stored
+   */
+  public async tools(load: () => Promise<ChatTool[]>): Promise<ChatTool[]> {
+    if (this.isReplay) return this.data.tools;
+    this.data.tools = await load();
+    return this.data.tools;
+  }
+
+  /**
+   * Run a tool call through the cassette. Replay returns the recorded result
+   * (or rethrows the recorded error) and fails if the call differs.
+   */
+  public async callTool(name: string, args: any, execute: () => Promise<any>, signal?: AbortSignal): Promise<any> {
+    if (this.isReplay) {
+      const interaction = this.next('tool', `tool call "${name}"`);
+      if (interaction.name !== name || JSON.stringify(interaction.args) !== JSON.stringify(args)) {
+        throw new AgentError(
+          `Cassette mismatch at interaction ${this.position}: expected tool "${interaction.name}" ` +
+            `with ${JSON.stringify(interaction.args)}, got "${name}" with ${JSON.stringify(args)}`,
+          ErrorCodes.CASSETTE_MISMATCH,
+          false
+        );
+      }
+      if (interaction.error) throw toAgentError(interaction.error);
+      return interaction.result;
+    }
+
+    try {
+      const result = await execute();
+      this.data.interactions.push({ type: 'tool', name, args, result });
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.data.interactions.push({ type: 'tool', name, args, error: toRecordedError(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fail a replay that finished before using every recorded interaction
+   */
+  public assertFinished(): void {
+    const remaining = this.data.interactions.length - this.position;
+    if (this.isReplay && remaining > 0) {
+      throw new AgentError(
+        `Cassette mismatch: run finished with ${remaining} recorded interaction(s) left`,
+        ErrorCodes.CASSETTE_MISMATCH,
+        false
+      );
+    }
+  }
+
+  /**
+   * Write a recording to disk (no-op when replaying)
+   */
+  public save(): void {
+    if (this.isReplay) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+  }
+
+  private next<T extends CassetteInteraction['type']>(
+    type: T,
+    description: string
+  ): Extract<CassetteInteraction, { type: T }> {
+    const interaction = this.data.interactions[this.position];
+    if (!interaction || interaction.type !== type) {
+      throw new AgentError(
+        `Cassette mismatch at interaction ${this.position + 1}: run requested a ${description} ` +
+          `but the cassette has ${interaction ? `a ${interaction.type} interaction` : 'no more interactions'}`,
+        ErrorCodes.CASSETTE_MISMATCH,
+        false
+      );
+    }
+    this.position++;
+    return interaction as Extract<CassetteInteraction, { type: T }>;
+  }
+}
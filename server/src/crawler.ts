@@ -0,0 +1,197 @@
+/**
+ * Deterministic same-origin crawler
+ *
+ * This module provides:
+ * - Breadth-first crawling through the run's browser session, bounded by
+ *   CRAWL_MAX_DEPTH, CRAWL_MAX_PAGES and the run's scope
+ * - A page graph: URL, title, forms, buttons and outgoing same-origin links
+ * - A compact text summary of the graph for the agent's first message
+ */
+
+import { AgentError, throwIfCancelled } from './errors';
+import { CrawledPage, SiteMap } from './types';
+
+const CRAWL_MAX_DEPTH = parseInt(process.env.CRAWL_MAX_DEPTH || '2', 10);
+const CRAWL_MAX_PAGES = parseInt(process.env.CRAWL_MAX_PAGES || '15', 10);
+const MAX_ITEMS_PER_PAGE = 15;
+const MAX_SUMMARY_LENGTH = 4000;
+
+// Links a crawler must not follow: downloads, and anything that ends the session
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|png|jpe?g|gif|svg|webp|ico|mp4|mp3|woff2?|ttf|css|js|json|xml)$/i;
+const SKIPPED_PATHS = /log-?out|sign-?out|logoff/i;
+
+const RESULT_MARKER = '__CRAWL__';
+
+/**
+ * Runs in the page through browser_evaluate. The result is base64-encoded
+ * between markers so it survives however the MCP server quotes it; the
+ * markers are built at runtime so the echoed source never matches.
+ */
+const EXTRACT_PAGE_FUNCTION = `() => {
+  const label = (el) => (el.innerText || el.value || el.getAttribute('aria-label') || el.getAttribute('title') || '')
+    .trim().replace(/\\s+/g, ' ').slice(0, 60);
+  const fieldName = (el) => el.name || el.id || el.getAttribute('placeholder') || el.getAttribute('aria-label') || el.type;
+  const isField = (el) => !['hidden', 'submit', 'button', 'reset', 'image'].includes(el.type);
+  const forms = Array.from(document.querySelectorAll('form')).map((form) => ({
+    action: form.getAttribute('action') || '',
+    method: (form.getAttribute('method') || 'get').toLowerCase(),
+    fields: Array.from(form.querySelectorAll('input, select, textarea')).filter(isField).map(fieldName)
+  }));
+  const looseFields = Array.from(document.querySelectorAll('input, select, textarea'))
+    .filter((el) => isField(el) && !el.closest('form')).map(fieldName);
+  if (looseFields.length > 0) forms.push({ action: '', method: '', fields: looseFields });
+  const data = {
+    url: location.href,
+    title: document.title,
+    links: Array.from(document.querySelectorAll('a[href]')).map((a) => a.href),
+    buttons: Array.from(document.querySelectorAll('button, input[type=submit], input[type=button], [role=button]')).map(label).filter(Boolean),
+    forms
+  };
+  const marker = '__CRAWL' + '__';
+  return marker + btoa(unescape(encodeURIComponent(JSON.stringify(data)))) + marker;
+}`;
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+  isInScope?: (url: string) => boolean; // URLs failing this, the start URL included, are not visited
+  onPage?: (page: CrawledPage, crawled: number, maxPages: number) => void;
+}
+
+/**
+ * Crawl budget from the environment; a page budget of 0 disables crawling
+ */
+export function getCrawlLimits(): { maxDepth: number; maxPages: number } {
+  return { maxDepth: Math.max(0, CRAWL_MAX_DEPTH), maxPages: Math.max(0, CRAWL_MAX_PAGES) };
+}
+
+/**
+ * Normalize a URL for de-duplication (no fragment, no trailing slash)
+ */
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the page data returned by EXTRACT_PAGE_FUNCTION
+ */
+function parseExtractResult(result: any): any {
+  const text = Array.isArray(result?.content)
+    ? result.content.map((item: any) => item.text || '').join('\n')
+    : JSON.stringify(result);
+  const match = text.match(new RegExp(`${RESULT_MARKER}([A-Za-z0-9+/=]+)${RESULT_MARKER}`));
+  if (!match) {
+    throw new Error('Page data not found in browser_evaluate result');
+  }
+  return JSON.parse(Buffer.from(match[1], 'base64').toString('utf-8'));
+}
+
+const unique = (items: string[]) => Array.from(new Set(items));
+
+/**
+ * Crawl same-origin pages breadth-first from startUrl, driving the browser
+ * through callTool (the run's MCP tool calls)
+ */
+export async function crawlSite(
+  startUrl: string,
+  callTool: (toolName: string, args: any) => Promise<any>,
+  options: CrawlOptions = {}
+): Promise<SiteMap> {
+  const limits = getCrawlLimits();
+  const maxDepth = options.maxDepth ?? limits.maxDepth;
+  const maxPages = options.maxPages ?? limits.maxPages;
+  const origin = new URL(startUrl).origin;
+  const isInScope = options.isInScope || (() => true);
+
+  const start = normalizeUrl(startUrl) || startUrl;
+  const queue: Array<{ url: string; depth: number }> = isInScope(start) ? [{ url: start, depth: 0 }] : [];
+  const seen = new Set<string>([start]);
+  const pages: CrawledPage[] = [];
+
+  while (queue.length > 0 && pages.length < maxPages) {
+    throwIfCancelled(options.signal);
+    const { url, depth } = queue.shift()!;
+
+    let page: CrawledPage;
+    try {
+      await callTool('browser_navigate', { url });
+      const data = parseExtractResult(await callTool('browser_evaluate', { function: EXTRACT_PAGE_FUNCTION }));
+      const finalUrl = normalizeUrl(data.url) || url;
+      const sameOrigin = new URL(finalUrl).origin === origin;
+
+      page = {
+        url: finalUrl,
+        title: String(data.title || ''),
+        depth,
+        forms: (data.forms || []).slice(0, MAX_ITEMS_PER_PAGE),
+        buttons: unique(data.buttons || []).slice(0, MAX_ITEMS_PER_PAGE),
+        // Redirected off-site: keep the page, don't follow its links
+        links: sameOrigin
+          ? unique((data.links || []).map(normalizeUrl).filter((link: string | null): link is string =>
+            !!link && new URL(link).origin === origin && !SKIPPED_EXTENSIONS.test(new URL(link).pathname) && !SKIPPED_PATHS.test(link) && isInScope(link)))
+          : []
+      };
+      seen.add(finalUrl);
+    } catch (error: any) {
+      throwIfCancelled(options.signal);
+      if (error instanceof AgentError && !error.recoverable) throw error;
+      page = { url, title: '', depth, forms: [], buttons: [], links: [], error: error.message };
+    }
+
+    pages.push(page);
+    options.onPage?.(page, pages.length, maxPages);
+
+    if (depth < maxDepth) {
+      for (const link of page.links) {
+        if (!seen.has(link)) {
+          seen.add(link);
+          queue.push({ url: link, depth: depth + 1 });
+        }
+      }
+    }
+  }
+
+  return { startUrl: start, maxDepth, pages, truncated: queue.length > 0 };
+}
+
+/**
+ * Compact text version of a site map for the agent
+ */
+export function summarizeSiteMap(siteMap: SiteMap): string {
+  const pathOf = (url: string) => {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  };
+
+  const lines = siteMap.pages.map(page => {
+    if (page.error) {
+      return `- ${pathOf(page.url)} (depth ${page.depth}): failed to load - ${page.error}`;
+    }
+    const parts = [`- ${pathOf(page.url)} "${page.title}" (depth ${page.depth})`];
+    for (const form of page.forms) {
+      const target = form.action ? ` -> ${form.action}` : '';
+      parts.push(`  form${target}: ${form.fields.join(', ') || 'no fields'}`);
+    }
+    if (page.buttons.length > 0) parts.push(`  buttons: ${page.buttons.join(', ')}`);
+    if (page.links.length > 0) parts.push(`  links: ${page.links.slice(0, MAX_ITEMS_PER_PAGE).map(pathOf).join(', ')}`);
+    return parts.join('\n');
+  });
+
+  let summary = `Site map of ${new URL(siteMap.startUrl).origin} (${siteMap.pages.length} pages, depth ≤ ${siteMap.maxDepth}` +
+    `${siteMap.truncated ? ', more pages not crawled' : ''}):\n${lines.join('\n')}`;
+  if (summary.length > MAX_SUMMARY_LENGTH) {
+    summary = summary.substring(0, MAX_SUMMARY_LENGTH) + '\n... [site map truncated]';
+  }
+  return summary;
+}
@@ -0,0 +1,70 @@
+/**
+ * Find near-duplicate tests in a suite and propose merged specs
+ *
+ * Usage: npm run duplicates -- [<dir>] [--threshold <0-1>] [--out <dir>]
+ *
+ * Scans the specs under <dir> (default: tests/, without the per-run folders
+ * in tests/runs) and prints each group of duplicate tests with the test to
+ * keep. The proposed merged file of each group is printed, or written to the
+ * --out directory. Existing specs are never changed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DUPLICATE_SIMILARITY, findDuplicateGroups, readSpecSources } from './specDuplicates';
+import { TESTS_DIR } from './tools';
+import { WORKSPACES_DIR } from './workspace';
+
+function parseArgs(argv: string[]): { dir: string; threshold: number; out?: string } | null {
+  let dir = TESTS_DIR;
+  let threshold = DUPLICATE_SIMILARITY;
+  let out: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--threshold') {
+      threshold = parseFloat(argv[++i]);
+      if (!(threshold > 0 && threshold <= 1)) return null;
+    } else if (argv[i] === '--out') {
+      out = argv[++i];
+      if (!out) return null;
+    } else if (argv[i].startsWith('--')) {
+      return null;
+    } else {
+      dir = path.resolve(argv[i]);
+    }
+  }
+  return { dir, threshold, out };
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.error('Usage: npm run duplicates -- [<dir>] [--threshold <0-1>] [--out <dir>]');
+    process.exit(1);
+  }
+
+  // The per-run folders are left out unless one of them is scanned directly
+  const skipDirs = path.relative(WORKSPACES_DIR, args.dir).startsWith('..') ? [WORKSPACES_DIR] : [];
+  const specs = readSpecSources(args.dir, skipDirs);
+  const groups = findDuplicateGroups(specs, args.threshold);
+  console.log(`🔍 ${specs.length} spec(s) in ${args.dir}: ${groups.length} group(s) of duplicate tests (similarity >= ${args.threshold})`);
+
+  for (const [index, group] of groups.entries()) {
+    console.log(`\n♊ Group ${index + 1} (${group.tests.length} tests, similarity >= ${group.similarity})`);
+    for (const test of group.tests) {
+      const kept = test.file === group.keep.file && test.title === group.keep.title;
+      console.log(`  ${kept ? '✅ keep  ' : '➖ merge '} ${test.file} › ${test.title} (${test.steps} steps)`);
+    }
+
+    if (args.out) {
+      const outFile = path.join(path.resolve(args.out), group.merged.fileName);
+      fs.mkdirSync(path.dirname(outFile), { recursive: true });
+      fs.writeFileSync(outFile, group.merged.content, 'utf-8');
+      console.log(`  📝 Proposed merged file: ${outFile}`);
+    } else {
+      console.log(`  📝 Proposed merged file ${group.merged.fileName}:\n`);
+      console.log(group.merged.content.replace(/^/gm, '    '));
+    }
+  }
+}
+
+main();
@@ -0,0 +1,49 @@
+/**
+ * Agent error types and codes shared by the server modules
+ */
+
+export class AgentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly recoverable: boolean = false,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'AgentError';
+  }
+}
+
+export const ErrorCodes = {
+  MCP_INIT_FAILED: 'MCP_INIT_FAILED',
+  MCP_CONNECTION_LOST: 'MCP_CONNECTION_LOST',
+  LLM_CONFIG_ERROR: 'LLM_CONFIG_ERROR',
+  LLM_AUTH_ERROR: 'LLM_AUTH_ERROR',
+  LLM_RATE_LIMIT: 'LLM_RATE_LIMIT',
+  LLM_API_ERROR: 'LLM_API_ERROR',
+  TOOL_EXECUTION_FAILED: 'TOOL_EXECUTION_FAILED',
+  TOOL_TIMEOUT: 'TOOL_TIMEOUT',
+  MAX_ITERATIONS: 'MAX_ITERATIONS',
+  INVALID_INPUT: 'INVALID_INPUT',
+  CANCELLED: 'CANCELLED',
+  CASSETTE_MISMATCH: 'CASSETTE_MISMATCH',
+  AUTH_FAILED: 'AUTH_FAILED',
+  UNKNOWN: 'UNKNOWN'
+} as const;
+
+/**
+ * Build the error reported when a run is cancelled
+ */
+export function cancellationError(signal: AbortSignal): AgentError {
+  if (signal.reason instanceof AgentError) return signal.reason;
+  return new AgentError('Run cancelled', ErrorCodes.CANCELLED, false);
+}
+
+/**
+ * Throw a CANCELLED error if the run's signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancellationError(signal);
+  }
+}
@@ -1,17 +1,36 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { runAgent, cleanupMCPClient, ErrorCodes } from './agent';
-import { AgentRequest, LogMessage } from './types';
+import * as path from 'path';
+import { runAgent, ErrorCodes, AgentError, OUTPUT_MODES } from './agent';
+import { getRunRegistry, isActiveRun } from './runRegistry';
+import { getSessionPool } from './mcpSession';
+import { getMCPConfig } from './mcpConfig';
+import { RunController } from './runControl';
+import { getLLMConfig, validateLLMConfig } from './llmProvider';
+import { validateScope } from './scope';
+import { loadAuthProfiles } from './authProfiles';
+import { getBuiltinToolNames, getCustomTools } from './tools';
+import { loadPlugins } from './plugins';
+import { parseApiSchema } from './openapi';
+import { getRevisionStore } from './revisions';
+import { AgentRequest, LogMessage, RunEvent } from './types';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 const REQUEST_TIMEOUT = parseInt(process.env.REQUEST_TIMEOUT || '600000', 10); // 10 min default
+const TOOLS_WAIT_TIMEOUT = parseInt(process.env.TOOLS_WAIT_TIMEOUT || '5000', 10); // for a free session to list MCP tools
+// CASSETTE_MODE=record saves every run's LLM and tool traffic for offline replay
+const RECORD_CASSETTES = process.env.CASSETTE_MODE === 'record';
+const CASSETTE_DIR = process.env.CASSETTE_DIR || path.join(__dirname, '..', 'cassettes');
 
-// Track active requests for cleanup
-const activeRequests = new Map<string, { abort: () => void }>();
+// Track active runs so they can be cancelled and steered
+const activeRequests = new Map<string, { abort: () => void; control: RunController }>();
+
+// Records every agent run for the /api/runs endpoints
+const runRegistry = getRunRegistry();
 
 if (process.env.PORT) {
   console.log(`📌 Using PORT from environment: ${process.env.PORT}`);
@@ -32,13 +51,49 @@ app.use((req, res, next) => {
 });
 
 // Validate environment variables
-if (!process.env.OPENAI_API_KEY) {
-  console.error('❌ ERROR: OPENAI_API_KEY environment variable is not set');
-  console.error('Please create a .env file with your OpenAI API key');
-  process.exit(1);
+// (runs fail with LLM_CONFIG_ERROR until the LLM provider is configured)
+const llmConfig = getLLMConfig();
+const llmConfigError = validateLLMConfig(llmConfig);
+if (llmConfigError) {
+  console.error(`❌ ERROR: ${llmConfigError}`);
+  console.error('Please set the LLM provider variables in your .env file (see README)');
 } else {
-  const keyPreview = process.env.OPENAI_API_KEY.substring(0, 8) + '...';
-  console.log(`✅ OpenAI API key loaded: ${keyPreview}`);
+  console.log(`✅ LLM provider: ${llmConfig.provider} (model: ${llmConfig.model})`);
+}
+
+// Check the MCP configuration now rather than at the first run
+let mcpPrefixes: string[] = [];
+try {
+  const mcpConfig = getMCPConfig();
+  mcpPrefixes = mcpConfig.servers.map(server => server.prefix ?? server.name);
+  const extraServers = mcpConfig.servers.map(server => `${server.name} (${server.transport})`);
+  console.log(`✅ Playwright MCP ${mcpConfig.playwright.version}${extraServers.length > 0 ? ` + ${extraServers.join(', ')}` : ''}`);
+} catch (error: any) {
+  console.error(`❌ ERROR: ${error.message}`);
+}
+
+// Load custom tools from the plugins directory (after the MCP configuration, whose prefixes they may not use)
+const plugins = loadPlugins(undefined, { toolNames: getBuiltinToolNames(), mcpPrefixes });
+plugins.errors.forEach(error => console.error(`❌ Plugin: ${error}`));
+if (plugins.tools.length > 0) {
+  console.log(`🔌 Loaded ${plugins.tools.length} plugin tool(s): ${plugins.tools.map(tool => tool.name).join(', ')}`);
+}
+
+/**
+ * Set the headers of a Server-Sent Events response
+ */
+function setSSEHeaders(res: express.Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+}
+
+/**
+ * Write a run event with its id so clients can resume with Last-Event-ID
+ */
+function writeEvent(res: express.Response, event: RunEvent): void {
+  res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
 }
 
 // Global error handlers
@@ -54,7 +109,328 @@ process.on('unhandledRejection', (reason, promise) => {
 
 // Health check endpoint
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({ status: 'ok', timestamp: new Date().toISOString(), sessions: getSessionPool().getStats() });
+});
+
+// List the tools the agent can call: built-in and plugin tools, then the MCP server's
+app.get('/api/tools', async (req, res) => {
+  const custom = getCustomTools().map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    source: 'plugin' in tool ? `plugin:${tool.plugin}` : 'builtin'
+  }));
+
+  // Without a cached list this needs a session slot; while runs hold them all,
+  // answer with the custom tools rather than wait for a run to finish
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(new AgentError(
+    `MCP tools unavailable: every browser session is in use (waited ${TOOLS_WAIT_TIMEOUT / 1000}s)`,
+    ErrorCodes.TOOL_TIMEOUT
+  )), TOOLS_WAIT_TIMEOUT);
+  res.on('close', () => abortController.abort());
+
+  try {
+    const mcp = (await getSessionPool().listTools(abortController.signal)).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      source: `mcp:${tool.server}`
+    }));
+    res.json({ tools: [...custom, ...mcp] });
+  } catch (error: any) {
+    // Still list the custom tools if the MCP server can't start or no session is free
+    if (!res.headersSent) {
+      res.json({ tools: custom, mcpError: error.message, mcpUnavailable: true });
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+});
+
+// List all runs (active and finished)
+app.get('/api/runs', (req, res) => {
+  res.json({ runs: runRegistry.list() });
+});
+
+// Get a single run with its logs and final result
+app.get('/api/runs/:id', (req, res) => {
+  const run = runRegistry.get(req.params.id);
+  if (!run) {
+    return res.status(404).json({
+      error: `Run not found: ${req.params.id}`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+  res.json(run);
+});
+
+/**
+ * Look up an active run for a control endpoint, sending 404/409 if there is none
+ */
+function findActiveRun(req: express.Request, res: express.Response) {
+  const id = req.params.id as string;
+  const run = runRegistry.get(id);
+  if (!run) {
+    res.status(404).json({
+      error: `Run not found: ${id}`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+    return undefined;
+  }
+
+  const active = activeRequests.get(run.id);
+  if (!active) {
+    res.status(409).json({
+      error: `Run is not active (status: ${run.status})`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+    return undefined;
+  }
+
+  return { run, ...active };
+}
+
+// Cancel a running agent
+app.post('/api/runs/:id/cancel', (req, res) => {
+  const active = findActiveRun(req, res);
+  if (!active) return;
+
+  console.log(`🛑 Cancelling run: ${active.run.id}`);
+  active.abort();
+  res.status(202).json({ id: active.run.id, status: 'cancelling' });
+});
+
+// Pause a running agent before its next iteration
+app.post('/api/runs/:id/pause', (req, res) => {
+  const active = findActiveRun(req, res);
+  if (!active) return;
+
+  active.control.pause();
+  runRegistry.setPaused(active.run.id, true);
+  runRegistry.appendLog(active.run.id, {
+    type: 'info',
+    message: 'Pause requested by operator - the agent will pause after its current step',
+    timestamp: new Date().toISOString()
+  });
+  res.json({ id: active.run.id, paused: true });
+});
+
+// Resume a paused agent
+app.post('/api/runs/:id/resume', (req, res) => {
+  const active = findActiveRun(req, res);
+  if (!active) return;
+
+  active.control.resume();
+  runRegistry.setPaused(active.run.id, false);
+  res.json({ id: active.run.id, paused: false });
+});
+
+// Inject an operator instruction into the agent's conversation
+app.post('/api/runs/:id/instructions', (req, res) => {
+  const { message } = req.body || {};
+  if (!message || typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({
+      error: 'message is required and must be a non-empty string',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  if (message.length > 4000) {
+    return res.status(400).json({
+      error: 'message too long (max 4000 characters)',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  const active = findActiveRun(req, res);
+  if (!active) return;
+
+  active.control.addInstruction(message.trim());
+  runRegistry.appendLog(active.run.id, {
+    type: 'info',
+    message: `Operator instruction queued: ${message.trim()}`,
+    timestamp: new Date().toISOString()
+  });
+  res.status(202).json({ id: active.run.id, queued: true });
+});
+
+// Approve or deny an action the safety policy is holding
+app.post('/api/runs/:id/approvals/:approvalId', (req, res) => {
+  const { approved } = req.body || {};
+  if (typeof approved !== 'boolean') {
+    return res.status(400).json({
+      error: 'approved is required and must be a boolean',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  const active = findActiveRun(req, res);
+  if (!active) return;
+
+  if (!active.control.answerApproval(req.params.approvalId, approved)) {
+    return res.status(404).json({
+      error: `No pending approval ${req.params.approvalId} (it may have timed out)`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+  res.json({ id: active.run.id, approvalId: req.params.approvalId, approved });
+});
+
+/**
+ * Send a revision store error: 400 for bad input (unknown file or revision),
+ * 500 for anything else
+ */
+function sendRevisionError(res: express.Response, error: any) {
+  const isInputError = error instanceof AgentError && error.code === ErrorCodes.INVALID_INPUT;
+  res.status(isInputError ? 400 : 500).json({
+    error: error.message,
+    errorCode: isInputError ? ErrorCodes.INVALID_INPUT : ErrorCodes.UNKNOWN
+  });
+}
+
+/**
+ * Parse a revision number from a query or body value
+ */
+function parseRevision(value: unknown): number | undefined {
+  const revision = typeof value === 'number' ? value : typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  return Number.isInteger(revision) && revision > 0 ? revision : undefined;
+}
+
+// List specs with a revision history, or the revisions of ?file=<history name>
+app.get('/api/revisions', (req, res) => {
+  const store = getRevisionStore();
+  const file = req.query.file;
+  if (file === undefined) {
+    return res.json({ files: store.listFiles() });
+  }
+  if (typeof file !== 'string' || !file) {
+    return res.status(400).json({ error: 'file must be a revision history name', errorCode: ErrorCodes.INVALID_INPUT });
+  }
+
+  try {
+    const revisions = store.list(file);
+    if (revisions.length === 0) {
+      return res.status(404).json({ error: `No revisions of ${file}`, errorCode: ErrorCodes.INVALID_INPUT });
+    }
+    res.json({ file: store.keyOf(file), revisions });
+  } catch (error: any) {
+    sendRevisionError(res, error);
+  }
+});
+
+// Unified diff between two revisions: ?file=&from=<n>[&to=<n>, default latest]
+app.get('/api/revisions/diff', (req, res) => {
+  const { file } = req.query;
+  const from = parseRevision(req.query.from);
+  const to = req.query.to === undefined ? undefined : parseRevision(req.query.to);
+  if (typeof file !== 'string' || !file || from === undefined || (req.query.to !== undefined && to === undefined)) {
+    return res.status(400).json({
+      error: 'file is required, and from (and optionally to) must be revision numbers',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  try {
+    const store = getRevisionStore();
+    res.json({ file: store.keyOf(file), from, to: to ?? store.list(file).pop()?.revision, diff: store.diff(file, from, to) });
+  } catch (error: any) {
+    sendRevisionError(res, error);
+  }
+});
+
+// Write a revision back to its file ({ file, revision }); recorded as a new revision
+app.post('/api/revisions/restore', (req, res) => {
+  const { file } = req.body || {};
+  const revision = parseRevision(req.body?.revision);
+  if (typeof file !== 'string' || !file || revision === undefined) {
+    return res.status(400).json({
+      error: 'file and revision are required',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  try {
+    const store = getRevisionStore();
+    res.json({ file: store.keyOf(file), restored: revision, revision: store.restore(file, revision) });
+  } catch (error: any) {
+    sendRevisionError(res, error);
+  }
+});
+
+// Reattach to a run's SSE stream, replaying events after Last-Event-ID
+app.get('/api/runs/:id/events', (req, res) => {
+  const run = runRegistry.get(req.params.id);
+  if (!run) {
+    return res.status(404).json({
+      error: `Run not found: ${req.params.id}`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  const lastEventIdRaw = req.header('Last-Event-ID') || (req.query.lastEventId as string | undefined) || '0';
+  const lastEventId = parseInt(lastEventIdRaw, 10);
+  if (isNaN(lastEventId) || lastEventId < 0) {
+    return res.status(400).json({
+      error: 'Last-Event-ID must be a non-negative integer',
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  setSSEHeaders(res);
+
+  let isClientConnected = true;
+  let unsubscribe = () => {};
+  let heartbeatInterval: NodeJS.Timeout | undefined;
+
+  const close = () => {
+    isClientConnected = false;
+    unsubscribe();
+    clearInterval(heartbeatInterval);
+  };
+
+  const send = (event: RunEvent) => {
+    if (!isClientConnected) return;
+    try {
+      writeEvent(res, event);
+      if (event.type === 'complete') {
+        close();
+        res.end();
+      }
+    } catch (error) {
+      console.error('Error sending event:', error);
+      close();
+    }
+  };
+
+  res.on('close', close);
+  res.on('error', close);
+
+  // Replay missed events, then follow the live run
+  for (const event of runRegistry.getEventsSince(run.id, lastEventId)) {
+    send(event);
+  }
+
+  // Nothing more will arrive for a finished run: end with its complete event,
+  // even if the client had it already, so it stops reconnecting
+  if (!isActiveRun(run)) {
+    const final = runRegistry.finalEvent(run);
+    if (final) send(final);
+    if (isClientConnected) {
+      close();
+      res.end();
+    }
+    return;
+  }
+
+  unsubscribe = runRegistry.subscribe(run.id, send);
+  heartbeatInterval = setInterval(() => {
+    try {
+      res.write(': heartbeat\n\n');
+    } catch {
+      close();
+    }
+  }, 5000);
 });
 
 // Start test generation endpoint with SSE
@@ -63,7 +439,7 @@ app.post('/api/start-test', async (req, res) => {
   let isClientConnected = true;
   let agentRunning = false;
 
-  const { url, schema }: AgentRequest = req.body;
+  const { url, schema, scope, authProfile, outputMode }: AgentRequest = req.body;
 
   // Validate URL
   if (!url || typeof url !== 'string') {
@@ -104,39 +480,96 @@ app.post('/api/start-test', async (req, res) => {
     });
   }
 
+  // An OpenAPI/Swagger schema must have paths to generate API tests from
+  if (schema) {
+    try {
+      parseApiSchema(schema, url);
+    } catch (error: any) {
+      return res.status(400).json({
+        error: error.message,
+        errorCode: ErrorCodes.INVALID_INPUT
+      });
+    }
+  }
+
+  // Validate auth profile if provided (credentials are resolved when the run starts)
+  if (authProfile !== undefined) {
+    let profileError: string | null = null;
+    try {
+      if (typeof authProfile !== 'string' || !loadAuthProfiles()[authProfile]) {
+        profileError = `Unknown auth profile: ${authProfile}`;
+      }
+    } catch (error: any) {
+      profileError = error.message;
+    }
+    if (profileError) {
+      return res.status(400).json({ 
+        error: profileError,
+        errorCode: ErrorCodes.INVALID_INPUT 
+      });
+    }
+  }
+
+  if (outputMode !== undefined && !OUTPUT_MODES.includes(outputMode)) {
+    return res.status(400).json({
+      error: `outputMode must be one of: ${OUTPUT_MODES.join(', ')}`,
+      errorCode: ErrorCodes.INVALID_INPUT
+    });
+  }
+
+  // Validate navigation scope if provided
+  const scopeError = validateScope(scope);
+  if (scopeError) {
+    return res.status(400).json({ 
+      error: scopeError,
+      errorCode: ErrorCodes.INVALID_INPUT 
+    });
+  }
+
   // Set up SSE headers
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  setSSEHeaders(res);
   res.setHeader('X-Request-Id', requestId);
+  res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
+
+  runRegistry.create(requestId, url, schema);
 
-  // Handle client disconnect
+  // Handle client disconnect (the run keeps going until it finishes or is cancelled)
   const cleanup = () => {
     isClientConnected = false;
-    activeRequests.delete(requestId);
     if (agentRunning) {
       console.log(`⚠️ Client disconnected during agent run: ${requestId}`);
     }
   };
 
-  req.on('close', cleanup);
+  res.on('close', cleanup);
   req.on('error', cleanup);
   res.on('error', cleanup);
 
-  // Safe send function that checks connection
-  const sendLog = (log: LogMessage) => {
+  // Stream every event of the run (agent logs, operator actions, final result)
+  const unsubscribe = runRegistry.subscribe(requestId, (event: RunEvent) => {
     if (!isClientConnected) return;
     try {
-      res.write(`data: ${JSON.stringify(log)}\n\n`);
+      writeEvent(res, event);
     } catch (error) {
       console.error('Error sending log:', error);
       isClientConnected = false;
     }
+  });
+
+  // Record a log message; subscribers (including this response) receive it
+  const sendLog = (log: LogMessage) => {
+    runRegistry.appendLog(requestId, log);
   };
 
-  // Track this request
-  activeRequests.set(requestId, { abort: cleanup });
+  // Track this run so the /api/runs/:id control endpoints can reach it
+  const abortController = new AbortController();
+  const control = new RunController();
+  activeRequests.set(requestId, {
+    abort: () => abortController.abort(
+      new AgentError('Run cancelled by user', ErrorCodes.CANCELLED, false)
+    ),
+    control
+  });
 
   // Keep-alive heartbeat to prevent SSE connection timeout
   const heartbeatInterval = setInterval(() => {
@@ -168,26 +601,33 @@ app.post('/api/start-test', async (req, res) => {
     });
 
     agentRunning = true;
-    const result = await runAgent(url, schema, sendLog);
+    const result = await runAgent(url, schema, sendLog, {
+      runId: requestId,
+      signal: abortController.signal,
+      control,
+      onQueuePosition: (position) => runRegistry.setQueuePosition(requestId, position),
+      scope,
+      authProfile,
+      outputMode,
+      cassette: RECORD_CASSETTES
+        ? { mode: 'record', path: path.join(CASSETTE_DIR, `${requestId}.json`) }
+        : undefined
+    });
     agentRunning = false;
     clearInterval(heartbeatInterval);
 
+    // Sends the final result to subscribers
+    runRegistry.finish(requestId, result);
+
     if (!isClientConnected) {
       console.log(`Request ${requestId} completed but client disconnected`);
       return;
     }
 
-    // Send final result
-    res.write(`data: ${JSON.stringify({ type: 'complete', ...result })}\n\n`);
     res.end();
   } catch (error: any) {
     agentRunning = false;
     clearInterval(heartbeatInterval);
-    
-    if (!isClientConnected) {
-      console.log(`Request ${requestId} errored but client disconnected`);
-      return;
-    }
 
     const errorMessage = error.message || 'Unknown error occurred';
     const errorCode = error.code || ErrorCodes.UNKNOWN;
@@ -198,14 +638,17 @@ app.post('/api/start-test', async (req, res) => {
       timestamp: new Date().toISOString()
     });
 
-    res.write(`data: ${JSON.stringify({ 
-      type: 'error', 
-      error: errorMessage,
-      errorCode: errorCode
-    })}\n\n`);
+    runRegistry.finish(requestId, { success: false, error: errorMessage, errorCode });
+
+    if (!isClientConnected) {
+      console.log(`Request ${requestId} errored but client disconnected`);
+      return;
+    }
+
     res.end();
   } finally {
     clearInterval(heartbeatInterval);
+    unsubscribe();
     activeRequests.delete(requestId);
   }
 });
@@ -213,13 +656,13 @@ app.post('/api/start-test', async (req, res) => {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nShutting down gracefully...');
-  await cleanupMCPClient();
+  await getSessionPool().closeAll();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\nShutting down gracefully...');
-  await cleanupMCPClient();
+  await getSessionPool().closeAll();
   process.exit(0);
 });
 
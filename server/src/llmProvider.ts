@@ -0,0 +1,389 @@
+/**
+ * LLM provider layer for the agent loop
+ *
+ * This module provides:
+ * - Provider selection from configuration (OpenAI, Azure OpenAI, Anthropic,
+ *   or any OpenAI-compatible server such as Ollama, llama.cpp or vLLM)
+ * - Chat completions with tool calling in the OpenAI message format the agent
+ *   uses, adapted to each provider's API
+ * - Per-provider error classification into AgentErrors
+ */
+
+import { OpenAI, AzureOpenAI } from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentError, ErrorCodes } from './errors';
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionFunctionTool;
+export type ChatCompletion = OpenAI.Chat.Completions.ChatCompletion;
+
+export type LLMProviderName = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  apiVersion?: string; // Azure only
+  maxTokens: number;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  tools: ChatTool[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion>;
+  classifyError(error: any): AgentError;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openai': 'gpt-4o',
+  'azure': 'gpt-4o',
+  'anthropic': 'claude-sonnet-4-5',
+  'openai-compatible': 'llama3.1'
+};
+
+/**
+ * Read the LLM configuration from the environment
+ */
+export function getLLMConfig(): LLMConfig {
+  const provider = (process.env.LLM_PROVIDER || 'openai').toLowerCase() as LLMProviderName;
+
+  const apiKeyByProvider: Record<string, string | undefined> = {
+    'openai': process.env.OPENAI_API_KEY,
+    'azure': process.env.AZURE_OPENAI_API_KEY,
+    'anthropic': process.env.ANTHROPIC_API_KEY,
+    'openai-compatible': process.env.LLM_API_KEY
+  };
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL
+      || (provider === 'azure' ? process.env.AZURE_OPENAI_DEPLOYMENT : undefined)
+      || (provider === 'openai' ? process.env.OPENAI_MODEL : undefined)
+      || DEFAULT_MODELS[provider],
+    apiKey: process.env.LLM_API_KEY || apiKeyByProvider[provider],
+    baseURL: process.env.LLM_BASE_URL || (provider === 'azure' ? process.env.AZURE_OPENAI_ENDPOINT : undefined),
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096', 10)
+  };
+}
+
+/**
+ * Check a configuration, returning an error message or null if it is usable
+ */
+export function validateLLMConfig(config: LLMConfig): string | null {
+  if (!(config.provider in DEFAULT_MODELS)) {
+    return `Unknown LLM_PROVIDER "${config.provider}". Use one of: ${Object.keys(DEFAULT_MODELS).join(', ')}`;
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return config.apiKey ? null : 'OPENAI_API_KEY environment variable is not set';
+    case 'azure':
+      if (!config.apiKey) return 'AZURE_OPENAI_API_KEY environment variable is not set';
+      if (!config.baseURL) return 'AZURE_OPENAI_ENDPOINT environment variable is not set';
+      return null;
+    case 'anthropic':
+      return config.apiKey ? null : 'ANTHROPIC_API_KEY environment variable is not set';
+    case 'openai-compatible':
+      // Local servers usually need no key
+      return config.baseURL ? null : 'LLM_BASE_URL must point at the OpenAI-compatible server (e.g. http://localhost:11434/v1)';
+  }
+}
+
+/**
+ * Shared error classification by HTTP status and message
+ */
+function classifyHttpError(error: any, providerLabel: string, model: string, keyHint: string): AgentError {
+  const message = error.message || error.toString();
+  const status = error.status || error.statusCode;
+
+  if (status === 401 || status === 403 || /invalid (api|x-api)[- ]key|incorrect api key|authentication/i.test(message)) {
+    return new AgentError(
+      `${providerLabel} API key is invalid. Please check your ${keyHint}.`,
+      ErrorCodes.LLM_AUTH_ERROR,
+      false
+    );
+  }
+
+  if (status === 429 || /rate limit/i.test(message)) {
+    return new AgentError(
+      `${providerLabel} rate limit exceeded. Waiting and retrying...`,
+      ErrorCodes.LLM_RATE_LIMIT,
+      true
+    );
+  }
+
+  if ((status === 400 || status === 404) && /model/i.test(message)) {
+    return new AgentError(
+      `Invalid model: ${model}. Check your LLM_MODEL setting.`,
+      ErrorCodes.LLM_API_ERROR,
+      false
+    );
+  }
+
+  if (status === 503 || status === 529 || /overloaded/i.test(message)) {
+    return new AgentError(
+      `${providerLabel} service is overloaded. Retrying...`,
+      ErrorCodes.LLM_API_ERROR,
+      true
+    );
+  }
+
+  // Network failures reaching the server (common for local endpoints that are down)
+  if (!status && /connection|ECONNREFUSED|ENOTFOUND|fetch failed/i.test(message)) {
+    return new AgentError(
+      `${providerLabel} connection error: ${message}`,
+      ErrorCodes.LLM_API_ERROR,
+      true
+    );
+  }
+
+  return new AgentError(
+    `${providerLabel} API error: ${message}`,
+    ErrorCodes.LLM_API_ERROR,
+    status >= 500 // Server errors are recoverable
+  );
+}
+
+/**
+ * OpenAI, Azure OpenAI and OpenAI-compatible servers (same wire format)
+ */
+class OpenAIChatProvider implements LLMProvider {
+  public readonly name: LLMProviderName;
+  public readonly model: string;
+  private client: OpenAI;
+
+  constructor(config: LLMConfig) {
+    this.name = config.provider;
+    this.model = config.model;
+
+    if (config.provider === 'azure') {
+      this.client = new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseURL,
+        apiVersion: config.apiVersion,
+        deployment: config.model
+      });
+    } else {
+      this.client = new OpenAI({
+        // The SDK insists on a key; local servers ignore it
+        apiKey: config.apiKey || 'not-needed',
+        baseURL: config.baseURL
+      });
+    }
+  }
+
+  public async createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+    const isCompatible = this.name === 'openai-compatible';
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      tools: request.tools,
+      // Several local servers reject tool_choice; "auto" is their default anyway
+      ...(isCompatible ? {} : { tool_choice: 'auto' as const })
+    }, { signal });
+
+    return isCompatible ? this.normalizeCompatibleResponse(response) : response;
+  }
+
+  /**
+   * Local servers sometimes omit tool call ids or return arguments as objects
+   */
+  private normalizeCompatibleResponse(response: ChatCompletion): ChatCompletion {
+    const message = response.choices[0]?.message;
+    if (!message?.tool_calls) return response;
+
+    message.tool_calls = message.tool_calls.map((toolCall, index) => {
+      if (toolCall.type !== 'function') return toolCall;
+      const args: any = toolCall.function.arguments;
+      return {
+        ...toolCall,
+        id: toolCall.id || `call_${Date.now()}_${index}`,
+        function: {
+          name: toolCall.function.name,
+          arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {})
+        }
+      };
+    });
+    return response;
+  }
+
+  public classifyError(error: any): AgentError {
+    const label = this.name === 'azure' ? 'Azure OpenAI' : this.name === 'openai' ? 'OpenAI' : 'LLM server';
+    const keyHint = this.name === 'azure' ? 'AZURE_OPENAI_API_KEY' : this.name === 'openai' ? 'OPENAI_API_KEY' : 'LLM_API_KEY';
+    return classifyHttpError(error, label, this.model, keyHint);
+  }
+}
+
+/**
+ * Anthropic Messages API, adapted to and from the OpenAI message format
+ */
+class AnthropicProvider implements LLMProvider {
+  public readonly name: LLMProviderName = 'anthropic';
+  public readonly model: string;
+  private client: Anthropic;
+  private maxTokens: number;
+
+  constructor(config: LLMConfig) {
+    this.model = config.model;
+    this.maxTokens = config.maxTokens;
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL
+    });
+  }
+
+  public async createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+    const { system, messages } = this.toAnthropicMessages(request.messages);
+
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: this.maxTokens,
+      system,
+      messages,
+      tools: request.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: (tool.function.parameters || { type: 'object', properties: {} }) as Anthropic.Tool.InputSchema
+      }))
+    }, { signal });
+
+    return this.toChatCompletion(response);
+  }
+
+  /**
+   * Convert OpenAI-format history: system prompt goes top-level, tool calls
+   * become tool_use blocks, tool results become user tool_result blocks, and
+   * consecutive turns of the same role are merged.
+   */
+  private toAnthropicMessages(history: ChatMessage[]): { system: string; messages: Anthropic.MessageParam[] } {
+    const systemParts: string[] = [];
+    const messages: Anthropic.MessageParam[] = [];
+    const knownToolUseIds = new Set<string>();
+
+    const textOf = (content: any): string => {
+      if (typeof content === 'string') return content;
+      if (Array.isArray(content)) {
+        return content.map((part: any) => part.text || '').join('\n');
+      }
+      return '';
+    };
+
+    const append = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]) => {
+      if (blocks.length === 0) return;
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) {
+        (last.content as Anthropic.ContentBlockParam[]).push(...blocks);
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of history) {
+      switch (message.role) {
+        case 'system':
+        case 'developer':
+          systemParts.push(textOf(message.content));
+          break;
+        case 'user': {
+          const text = textOf(message.content);
+          if (text) append('user', [{ type: 'text', text }]);
+          break;
+        }
+        case 'assistant': {
+          const blocks: Anthropic.ContentBlockParam[] = [];
+          const text = textOf(message.content);
+          if (text) blocks.push({ type: 'text', text });
+          for (const toolCall of message.tool_calls || []) {
+            if (toolCall.type !== 'function') continue;
+            let input: any = {};
+            try {
+              input = JSON.parse(toolCall.function.arguments || '{}');
+            } catch {
+              // Keep empty input
+            }
+            knownToolUseIds.add(toolCall.id);
+            blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+          }
+          append('assistant', blocks);
+          break;
+        }
+        case 'tool':
+          // History pruning can drop the assistant turn that issued the call
+          if (!knownToolUseIds.has(message.tool_call_id)) break;
+          append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: textOf(message.content) }]);
+          break;
+      }
+    }
+
+    // The conversation must open with a user turn
+    if (messages.length === 0 || messages[0].role !== 'user') {
+      messages.unshift({ role: 'user', content: [{ type: 'text', text: 'Continue.' }] });
+    }
+
+    return { system: systemParts.join('\n\n'), messages };
+  }
+
+  private toChatCompletion(response: Anthropic.Message): ChatCompletion {
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    const toolCalls = response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function' as const,
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+      }));
+
+    return {
+      id: response.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: response.model,
+      choices: [{
+        index: 0,
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+        logprobs: null,
+        message: {
+          role: 'assistant',
+          content: text || null,
+          refusal: null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        }
+      }],
+      usage: {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens
+      }
+    };
+  }
+
+  public classifyError(error: any): AgentError {
+    return classifyHttpError(error, 'Anthropic', this.model, 'ANTHROPIC_API_KEY');
+  }
+}
+
+/**
+ * Create the provider for a configuration
+ */
+export function createLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  const configError = validateLLMConfig(config);
+  if (configError) {
+    throw new AgentError(configError, ErrorCodes.LLM_CONFIG_ERROR, false);
+  }
+
+  return config.provider === 'anthropic'
+    ? new AnthropicProvider(config)
+    : new OpenAIChatProvider(config);
+}
@@ -0,0 +1,164 @@
+/**
+ * MCP server configuration
+ *
+ * This module provides:
+ * - The Playwright MCP launch settings: pinned package version, headless
+ *   mode, browser, viewport and extra CLI arguments
+ * - Additional MCP servers to combine with it, over stdio (command, args,
+ *   env) or over the network (streamable HTTP or SSE)
+ * - Loading and validation of MCP_CONFIG_FILE, with environment overrides
+ *   for the Playwright settings
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentError, ErrorCodes } from './errors';
+
+const MCP_CONFIG_FILE = process.env.MCP_CONFIG_FILE || path.join(__dirname, '..', 'mcp.config.json');
+// Pinned so upstream releases can't change the agent's tools underneath it. The
+// exact version comes from package.json, so the installed copy is the one used.
+const DEFAULT_PLAYWRIGHT_MCP_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')
+).dependencies['@playwright/mcp'];
+
+export interface PlaywrightMCPOptions {
+  version: string;
+  headless?: boolean;
+  browser?: string; // chrome, firefox, webkit or msedge
+  viewport?: string; // e.g. "1280x720"
+  args?: string[]; // any other @playwright/mcp CLI arguments
+}
+
+interface MCPServerBase {
+  name: string;
+  prefix?: string; // tool name prefix, "<prefix>__<tool>"; defaults to the server name
+}
+
+export interface StdioMCPServer extends MCPServerBase {
+  transport: 'stdio';
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+export interface RemoteMCPServer extends MCPServerBase {
+  transport: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type MCPServerConfig = StdioMCPServer | RemoteMCPServer;
+
+export interface MCPConfig {
+  playwright: PlaywrightMCPOptions;
+  servers: MCPServerConfig[]; // in addition to Playwright
+}
+
+const isStringList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isStringMap = (value: any) => value && typeof value === 'object' && Object.values(value).every(item => typeof item === 'string');
+
+/**
+ * Check one additional server entry; returns an error message or null
+ */
+function validateServer(server: any, index: number): string | null {
+  const label = `servers[${index}]`;
+  if (!server || typeof server !== 'object') return `${label} must be an object`;
+  if (typeof server.name !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(server.name)) {
+    return `${label}.name must contain only letters, digits, "_" and "-"`;
+  }
+  if (server.prefix !== undefined && (typeof server.prefix !== 'string' || !/^[a-zA-Z0-9_-]*$/.test(server.prefix))) {
+    return `${label}.prefix must contain only letters, digits, "_" and "-"`;
+  }
+
+  if (server.transport === 'stdio') {
+    if (typeof server.command !== 'string' || !server.command) return `${label}.command is required for stdio`;
+    if (server.args !== undefined && !isStringList(server.args)) return `${label}.args must be an array of strings`;
+    if (server.env !== undefined && !isStringMap(server.env)) return `${label}.env must map names to strings`;
+    return null;
+  }
+
+  if (server.transport === 'http' || server.transport === 'sse') {
+    try {
+      new URL(server.url);
+    } catch {
+      return `${label}.url must be a valid URL`;
+    }
+    if (server.headers !== undefined && !isStringMap(server.headers)) return `${label}.headers must map names to strings`;
+    return null;
+  }
+
+  return `${label}.transport must be "stdio", "http" or "sse"`;
+}
+
+/**
+ * Read MCP_CONFIG_FILE (if present) and apply the PLAYWRIGHT_MCP_* overrides:
+ * { "playwright": { "version", "headless", "browser", "viewport", "args" },
+ *   "servers": [{ "name", "transport", "command" | "url", ... }] }
+ */
+export function loadMCPConfig(): MCPConfig {
+  let file: any = {};
+  if (fs.existsSync(MCP_CONFIG_FILE)) {
+    try {
+      file = JSON.parse(fs.readFileSync(MCP_CONFIG_FILE, 'utf-8'));
+    } catch (error: any) {
+      throw new AgentError(`Cannot read ${MCP_CONFIG_FILE}: ${error.message}`, ErrorCodes.MCP_INIT_FAILED, false);
+    }
+  }
+
+  const playwright: PlaywrightMCPOptions = {
+    version: DEFAULT_PLAYWRIGHT_MCP_VERSION,
+    ...file.playwright
+  };
+  if (process.env.PLAYWRIGHT_MCP_VERSION) playwright.version = process.env.PLAYWRIGHT_MCP_VERSION;
+  if (process.env.PLAYWRIGHT_MCP_HEADLESS) playwright.headless = process.env.PLAYWRIGHT_MCP_HEADLESS === 'true';
+  if (process.env.PLAYWRIGHT_MCP_BROWSER) playwright.browser = process.env.PLAYWRIGHT_MCP_BROWSER;
+  if (process.env.PLAYWRIGHT_MCP_VIEWPORT) playwright.viewport = process.env.PLAYWRIGHT_MCP_VIEWPORT;
+
+  // A URL means a remote server; anything else runs over stdio
+  const servers = (file.servers || []).map((server: any) =>
+    server && !server.transport ? { ...server, transport: server.url ? 'http' : 'stdio' } : server);
+
+  const errors = [
+    typeof playwright.version !== 'string' || !playwright.version ? 'playwright.version must be a string' : null,
+    playwright.args !== undefined && !isStringList(playwright.args) ? 'playwright.args must be an array of strings' : null,
+    playwright.viewport !== undefined && !/^\d+x\d+$/.test(String(playwright.viewport)) ? 'playwright.viewport must look like "1280x720"' : null,
+    !Array.isArray(servers) ? 'servers must be an array' : null,
+    ...(Array.isArray(servers) ? servers.map(validateServer) : [])
+  ].filter((error): error is string => !!error);
+
+  const names = Array.isArray(servers) ? servers.map((server: any) => server?.name) : [];
+  if (names.includes('playwright')) errors.push('server name "playwright" is reserved for the Playwright MCP');
+  const duplicate = names.find((name: string, index: number) => names.indexOf(name) !== index);
+  if (duplicate) errors.push(`server name "${duplicate}" is used twice`);
+
+  if (errors.length > 0) {
+    throw new AgentError(`Invalid MCP configuration: ${errors.join('; ')}`, ErrorCodes.MCP_INIT_FAILED, false);
+  }
+
+  return { playwright, servers };
+}
+
+/**
+ * @playwright/mcp CLI arguments for the launch options
+ */
+export function playwrightMCPArgs(options: PlaywrightMCPOptions): string[] {
+  return [
+    ...(options.headless ? ['--headless'] : []),
+    ...(options.browser ? ['--browser', options.browser] : []),
+    ...(options.viewport ? ['--viewport-size', options.viewport] : []),
+    ...(options.args || [])
+  ];
+}
+
+// Singleton instance
+let mcpConfigInstance: MCPConfig | null = null;
+
+/**
+ * Get the MCP configuration (read once, at the first session)
+ */
+export function getMCPConfig(): MCPConfig {
+  if (!mcpConfigInstance) {
+    mcpConfigInstance = loadMCPConfig();
+  }
+  return mcpConfigInstance;
+}
@@ -0,0 +1,437 @@
+/**
+ * MCP sessions and the pool that hands them out to runs
+ *
+ * This module provides:
+ * - One Playwright MCP server process per run, with an isolated browser profile
+ *   (optionally seeded with a saved storageState, for logged-in runs), plus
+ *   connections to any additional MCP servers from the MCP configuration
+ * - Tool names prefixed per additional server, and routing of calls back to it
+ * - A configurable limit on concurrent sessions (MAX_CONCURRENT_RUNS)
+ * - A FIFO queue for runs waiting for a free session, with queue positions
+ * - The combined tool list, cached from the first session that lists it
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AgentError, ErrorCodes } from './errors';
+import { MCPServerConfig, PlaywrightMCPOptions, getMCPConfig, playwrightMCPArgs } from './mcpConfig';
+
+const MAX_CONCURRENT_RUNS = parseInt(process.env.MAX_CONCURRENT_RUNS || '2', 10);
+const MCP_CONNECT_TIMEOUT_MS = 30000;
+const PLAYWRIGHT_MCP_PACKAGE = '@playwright/mcp';
+// Keep each session's browser profile in memory so parallel sessions don't share state
+const MCP_SERVER_ARGS = ['--isolated'];
+
+export type MCPTool = Tool & { server: string };
+
+// Every session runs the same servers, so the tool list is the same for all
+let cachedTools: MCPTool[] | null = null;
+
+/**
+ * Path of the Playwright MCP CLI if the pinned version is installed in
+ * node_modules (no download, works offline)
+ */
+function findLocalPlaywrightMCP(version: string): string | null {
+  try {
+    const packageJson = require.resolve(`${PLAYWRIGHT_MCP_PACKAGE}/package.json`);
+    const { version: installed, bin } = JSON.parse(fs.readFileSync(packageJson, 'utf-8'));
+    if (installed !== version) return null;
+    const cli = typeof bin === 'string' ? bin : bin?.['playwright-mcp'];
+    return cli ? path.join(path.dirname(packageJson), cli) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the command that launches the Playwright MCP server
+ */
+function resolveMCPCommand(options: PlaywrightMCPOptions, extraArgs: string[] = []): { command: string; args: string[] } {
+  const serverArgs = [...MCP_SERVER_ARGS, ...playwrightMCPArgs(options), ...extraArgs];
+  const mcpPackage = `${PLAYWRIGHT_MCP_PACKAGE}@${options.version}`;
+
+  const localCli = findLocalPlaywrightMCP(options.version);
+  if (localCli) {
+    return { command: process.execPath, args: [localCli, ...serverArgs] };
+  }
+
+  const npxArgs = ['-y', mcpPackage, ...serverArgs];
+
+  if (os.platform() !== 'win32') {
+    return { command: 'npx', args: npxArgs };
+  }
+
+  const localNpxPath = path.join(__dirname, '..', 'node_modules', '.bin', 'npx.cmd');
+  if (fs.existsSync(localNpxPath)) {
+    console.log(`✅ Found local npx at: ${localNpxPath}`);
+    return { command: localNpxPath, args: npxArgs };
+  }
+
+  try {
+    const nodeDir = path.dirname(process.execPath);
+    const npmPath = path.join(nodeDir, 'npm.cmd');
+    if (fs.existsSync(npmPath)) {
+      console.log(`✅ Using npm from node directory: ${npmPath}`);
+      return { command: 'cmd.exe', args: ['/c', npmPath, 'exec', '-y', '--', mcpPackage, ...serverArgs] };
+    }
+  } catch (e) { /* continue */ }
+
+  // Fall back to npm.cmd on the PATH
+  return { command: 'cmd.exe', args: ['/c', 'npm.cmd', 'exec', '-y', '--', mcpPackage, ...serverArgs] };
+}
+
+/**
+ * Create the transport for an additional MCP server. Stdio servers get only
+ * the default environment plus their own env, not the server's secrets.
+ */
+function createTransport(server: MCPServerConfig): Transport {
+  if (server.transport === 'stdio') {
+    return new StdioClientTransport({
+      command: server.command,
+      args: server.args || [],
+      env: { ...getDefaultEnvironment(), ...server.env }
+    });
+  }
+
+  const requestInit = server.headers ? { headers: server.headers } : undefined;
+  return server.transport === 'sse'
+    ? new SSEClientTransport(new URL(server.url), { requestInit })
+    : new StreamableHTTPClientTransport(new URL(server.url), { requestInit });
+}
+
+interface MCPConnection {
+  server: string;
+  prefix: string; // empty for Playwright, whose tool names stay as they are
+  client: Client;
+  transport: Transport;
+}
+
+/**
+ * A run's MCP connections: its dedicated Playwright MCP server process and
+ * the additional configured servers
+ */
+export class MCPSession {
+  public readonly runId: string;
+  private storageState?: string;
+  private connections: MCPConnection[] = [];
+  // Prefixed tool name -> server and tool name there (survives reconnects)
+  private toolRoutes = new Map<string, { server: string; toolName: string }>();
+
+  constructor(runId: string, storageState?: string) {
+    this.runId = runId;
+    this.storageState = storageState;
+  }
+
+  /**
+   * Start the MCP servers and connect to them, with retries. If the signal
+   * aborts, the servers started so far are stopped and the signal's reason
+   * is thrown.
+   */
+  public async connect(signal?: AbortSignal, retryCount = 0): Promise<void> {
+    const MAX_RETRIES = 3;
+
+    try {
+      const config = getMCPConfig();
+      const { command, args } = resolveMCPCommand(config.playwright, this.storageState ? ['--storage-state', this.storageState] : []);
+      console.log(`🔧 Initializing MCP session for ${this.runId} with: ${command} ${args.join(' ')}`);
+      await this.connectServer('playwright', '', new StdioClientTransport({ command, args }), signal);
+
+      for (const server of config.servers) {
+        await this.connectServer(server.name, server.prefix ?? server.name, createTransport(server), signal);
+      }
+      console.log(`✅ MCP session connected for ${this.runId}`);
+    } catch (error: any) {
+      await this.close();
+
+      if (signal?.aborted) throw signal.reason;
+      // A bad configuration won't fix itself
+      if (error instanceof AgentError) throw error;
+
+      if (retryCount < MAX_RETRIES) {
+        console.log(`⚠️ MCP init failed, retrying (${retryCount + 1}/${MAX_RETRIES})...`);
+        await new Promise(resolve => {
+          const timeoutId = setTimeout(resolve, 2000 * (retryCount + 1));
+          signal?.addEventListener('abort', () => { clearTimeout(timeoutId); resolve(undefined); }, { once: true });
+        });
+        if (signal?.aborted) throw signal.reason;
+        return this.connect(signal, retryCount + 1);
+      }
+
+      throw new AgentError(
+        `MCP initialization failed after ${MAX_RETRIES} attempts: ${error.message}`,
+        ErrorCodes.MCP_INIT_FAILED,
+        false,
+        { originalError: error.message }
+      );
+    }
+  }
+
+  /**
+   * Connect one server, with a timeout; gives up when the signal aborts
+   */
+  private async connectServer(server: string, prefix: string, transport: Transport, signal?: AbortSignal): Promise<void> {
+    const client = new Client({
+      name: 'qa-app-host',
+      version: '1.0.0'
+    }, {
+      capabilities: {}
+    });
+    this.connections.push({ server, prefix, client, transport });
+
+    // Add timeout to connection
+    let timeoutId: NodeJS.Timeout;
+    let onAbort: () => void;
+    const timeoutPromise = new Promise((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(`MCP connection to ${server} timed out`)), MCP_CONNECT_TIMEOUT_MS);
+      onAbort = () => reject(new Error(`MCP connection to ${server} was aborted`));
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      await Promise.race([client.connect(transport), timeoutPromise]);
+    } catch (error: any) {
+      throw new Error(`${server}: ${error.message}`);
+    } finally {
+      clearTimeout(timeoutId!);
+      signal?.removeEventListener('abort', onAbort!);
+    }
+  }
+
+  /**
+   * Replace lost connections with fresh MCP servers
+   */
+  public async reconnect(): Promise<void> {
+    await this.close();
+    await this.connect();
+  }
+
+  public isConnected(): boolean {
+    return this.connections.length > 0;
+  }
+
+  /**
+   * List the tools of every server, prefixed with "<prefix>__" for the
+   * additional ones (and remember them for GET /api/tools)
+   */
+  public async listTools(): Promise<MCPTool[]> {
+    const tools: MCPTool[] = [];
+    this.toolRoutes.clear();
+
+    for (const connection of this.requireConnections()) {
+      const { tools: serverTools } = await connection.client.listTools();
+      for (const tool of serverTools) {
+        const name = connection.prefix ? `${connection.prefix}__${tool.name}` : tool.name;
+        if (this.toolRoutes.has(name)) {
+          console.warn(`⚠️ Skipping MCP tool ${name} from ${connection.server}: name already taken`);
+          continue;
+        }
+        this.toolRoutes.set(name, { server: connection.server, toolName: tool.name });
+        tools.push({ ...tool, name, server: connection.server });
+      }
+    }
+
+    cachedTools = tools;
+    return tools;
+  }
+
+  /**
+   * Call a tool by its (prefixed) name on the server that provides it
+   */
+  public async callTool(name: string, args: any, options?: { signal?: AbortSignal }): Promise<any> {
+    const connections = this.requireConnections();
+    // Before listTools, only the Playwright tools are known by name
+    const route = this.toolRoutes.get(name) || { server: 'playwright', toolName: name };
+    const connection = connections.find(candidate => candidate.server === route.server);
+    if (!connection) {
+      throw new AgentError(`MCP server ${route.server} is not connected`, ErrorCodes.MCP_CONNECTION_LOST, true);
+    }
+    return connection.client.callTool({ name: route.toolName, arguments: args }, undefined, options);
+  }
+
+  private requireConnections(): MCPConnection[] {
+    if (this.connections.length === 0) {
+      throw new AgentError('MCP client not initialized', ErrorCodes.MCP_CONNECTION_LOST, true);
+    }
+    return this.connections;
+  }
+
+  /**
+   * Stop the MCP servers (and close remote connections)
+   */
+  public async close(): Promise<void> {
+    const connections = this.connections;
+    this.connections = [];
+    for (const { server, transport } of connections) {
+      try {
+        await transport.close();
+      } catch (error) {
+        console.error(`Error closing MCP transport for ${server}:`, error);
+      }
+    }
+  }
+}
+
+interface QueuedRun {
+  runId: string;
+  resolve: () => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+export class MCPSessionPool {
+  private maxConcurrency: number;
+  private activeSessions = new Set<MCPSession>();
+  private reservedSlots = 0;
+  private queue: QueuedRun[] = [];
+
+  constructor(maxConcurrency: number = MAX_CONCURRENT_RUNS) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * Get a connected session for a run, waiting in the FIFO queue if every
+   * slot is taken. Rejects with the signal's reason if aborted while queued
+   * or connecting; the slot is freed either way.
+   */
+  public async acquire(
+    runId: string,
+    options: { signal?: AbortSignal; onQueuePosition?: (position: number) => void; storageState?: string } = {}
+  ): Promise<MCPSession> {
+    await this.reserveSlot(runId, options.signal, options.onQueuePosition);
+
+    const session = new MCPSession(runId, options.storageState);
+    try {
+      await session.connect(options.signal);
+      // Aborted just as the last server connected
+      if (options.signal?.aborted) {
+        await session.close();
+        throw options.signal.reason;
+      }
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+
+    this.activeSessions.add(session);
+    return session;
+  }
+
+  /**
+   * Close a run's session and hand its slot to the next queued run
+   */
+  public async release(session: MCPSession): Promise<void> {
+    if (!this.activeSessions.delete(session)) return;
+    await session.close();
+    this.releaseSlot();
+  }
+
+  /**
+   * The MCP server's tools. Without a cached list, starts a short-lived
+   * session (through the queue like any run) to fetch it.
+   */
+  public async listTools(signal?: AbortSignal): Promise<MCPTool[]> {
+    if (cachedTools) return cachedTools;
+
+    const session = await this.acquire(`tools_${Date.now()}`, { signal });
+    try {
+      return await session.listTools();
+    } finally {
+      await this.release(session);
+    }
+  }
+
+  /**
+   * Position of a run in the queue (1-based), or 0 if it is not queued
+   */
+  public getQueuePosition(runId: string): number {
+    return this.queue.findIndex(item => item.runId === runId) + 1;
+  }
+
+  public getStats(): { active: number; queued: number; maxConcurrency: number } {
+    return {
+      active: this.reservedSlots,
+      queued: this.queue.length,
+      maxConcurrency: this.maxConcurrency
+    };
+  }
+
+  /**
+   * Close every session (used on shutdown)
+   */
+  public async closeAll(): Promise<void> {
+    const sessions = Array.from(this.activeSessions);
+    this.activeSessions.clear();
+    await Promise.all(sessions.map(session => session.close()));
+  }
+
+  private reserveSlot(
+    runId: string,
+    signal?: AbortSignal,
+    onQueuePosition?: (position: number) => void
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.reservedSlots < this.maxConcurrency && this.queue.length === 0) {
+      this.reservedSlots++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(item => item !== queued);
+        this.notifyQueuePositions();
+        reject(signal!.reason);
+      };
+
+      const queued: QueuedRun = {
+        runId,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        onQueuePosition
+      };
+
+      this.queue.push(queued);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      onQueuePosition?.(this.queue.length);
+    });
+  }
+
+  private releaseSlot(): void {
+    this.reservedSlots--;
+
+    const next = this.queue.shift();
+    if (next) {
+      this.reservedSlots++;
+      next.resolve();
+      this.notifyQueuePositions();
+    }
+  }
+
+  private notifyQueuePositions(): void {
+    this.queue.forEach((item, index) => item.onQueuePosition?.(index + 1));
+  }
+}
+
+// Singleton instance
+let sessionPoolInstance: MCPSessionPool | null = null;
+
+/**
+ * Get or create the MCP session pool
+ */
+export function getSessionPool(): MCPSessionPool {
+  if (!sessionPoolInstance) {
+    sessionPoolInstance = new MCPSessionPool();
+  }
+  return sessionPoolInstance;
+}
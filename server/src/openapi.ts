@@ -0,0 +1,351 @@
+/**
+ * OpenAPI / Swagger schemas for API test generation
+ *
+ * This module provides:
+ * - Parsing of an uploaded schema (JSON or YAML) as OpenAPI 3 or Swagger 2
+ *   into a flat list of operations: parameters, request body, responses and
+ *   whether they need auth, with local $refs resolved
+ * - The system prompt section listing the operations to cover
+ * - Coverage of those operations by the run's specs, from the operation ids
+ *   in test titles and the request calls they make
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { AgentError, ErrorCodes } from './errors';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_PROMPT_OPERATIONS = 80; // the rest are available through getApiCoverage / getApiOperation
+
+export interface ApiParameter {
+  name: string;
+  in: string; // path, query, header or cookie
+  required: boolean;
+  type?: string;
+}
+
+export interface ApiOperation {
+  id: string; // operationId, or "METHOD /path" without one
+  method: string; // upper case
+  path: string;
+  summary?: string;
+  parameters: ApiParameter[];
+  requestBody?: {
+    contentType: string;
+    required: boolean;
+    requiredFields: string[];
+    schema?: any;
+  };
+  responses: Array<{ status: string; description?: string; schema?: any }>;
+  secured: boolean; // requires credentials
+}
+
+export interface ApiSpec {
+  format: 'openapi3' | 'swagger2';
+  title: string;
+  version: string;
+  baseUrl?: string;
+  operations: ApiOperation[];
+}
+
+export interface ApiOperationCoverage {
+  id: string;
+  method: string;
+  path: string;
+  files: string[]; // specs with a test for the operation
+}
+
+export interface ApiCoverage {
+  total: number;
+  covered: number;
+  operations: ApiOperationCoverage[];
+}
+
+/**
+ * Follow a local "#/..." JSON pointer
+ */
+function lookupRef(doc: any, ref: string): any {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref
+    .substring(2)
+    .split('/')
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, key) => (node && typeof node === 'object' ? node[key] : undefined), doc);
+}
+
+/**
+ * Replace local $refs with their targets; a recursive $ref is kept as is
+ */
+function resolveRefs(doc: any, node: any, chain: string[] = []): any {
+  if (!node || typeof node !== 'object') return node;
+  if (typeof node.$ref === 'string') {
+    const target = chain.includes(node.$ref) ? undefined : lookupRef(doc, node.$ref);
+    return target === undefined ? node : resolveRefs(doc, target, [...chain, node.$ref]);
+  }
+  if (Array.isArray(node)) return node.map(item => resolveRefs(doc, item, chain));
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, resolveRefs(doc, value, chain)]));
+}
+
+/**
+ * The JSON media type of a content map if there is one, otherwise the first
+ */
+function pickContent(content: any): { contentType: string; schema?: any } | undefined {
+  if (!content || typeof content !== 'object') return undefined;
+  const types = Object.keys(content);
+  const contentType = types.find(type => /json/i.test(type)) || types[0];
+  return contentType ? { contentType, schema: content[contentType]?.schema } : undefined;
+}
+
+/**
+ * Whether a security requirement list asks for credentials ([{}] makes them optional)
+ */
+function requiresAuth(security: any): boolean {
+  return Array.isArray(security) && security.length > 0 &&
+    security.every(requirement => requirement && Object.keys(requirement).length > 0);
+}
+
+/**
+ * Where the API is served: OpenAPI 3 servers or Swagger 2 host/basePath,
+ * resolved against the run's target URL when relative
+ */
+function findBaseUrl(doc: any, format: ApiSpec['format'], targetUrl?: string): string | undefined {
+  let base: string | undefined;
+  if (format === 'openapi3') {
+    const server = Array.isArray(doc.servers) ? doc.servers[0] : undefined;
+    if (server && typeof server.url === 'string') {
+      base = server.url.replace(/\{([^}]+)\}/g, (match: string, name: string) =>
+        server.variables?.[name]?.default ?? match);
+    }
+  } else if (doc.host || doc.basePath) {
+    const scheme = Array.isArray(doc.schemes) && doc.schemes.length > 0 ? doc.schemes[0] : undefined;
+    base = doc.host
+      ? `${scheme || (targetUrl ? new URL(targetUrl).protocol.replace(':', '') : 'https')}://${doc.host}${doc.basePath || ''}`
+      : doc.basePath;
+  }
+
+  if (!base) return targetUrl ? new URL(targetUrl).origin : undefined;
+  try {
+    return new URL(base, targetUrl).toString().replace(/\/$/, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function toParameter(param: any): ApiParameter {
+  return {
+    name: String(param.name),
+    in: String(param.in),
+    required: !!param.required || param.in === 'path',
+    type: param.schema?.type ?? param.type
+  };
+}
+
+/**
+ * The operations of a resolved document
+ */
+function collectOperations(doc: any, format: ApiSpec['format']): ApiOperation[] {
+  const operations: ApiOperation[] = [];
+
+  for (const [apiPath, pathItem] of Object.entries<any>(doc.paths)) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+    const sharedParams: any[] = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+
+    for (const method of HTTP_METHODS) {
+      const op = pathItem[method];
+      if (!op || typeof op !== 'object') continue;
+
+      // Operation parameters override path-level ones with the same name and location
+      const ownParams: any[] = Array.isArray(op.parameters) ? op.parameters : [];
+      const params = [
+        ...sharedParams.filter(shared => !ownParams.some(own => own?.name === shared?.name && own?.in === shared?.in)),
+        ...ownParams
+      ].filter(param => param && typeof param === 'object' && param.name);
+
+      let requestBody: ApiOperation['requestBody'];
+      if (format === 'openapi3' && op.requestBody) {
+        const content = pickContent(op.requestBody.content);
+        if (content) {
+          requestBody = {
+            contentType: content.contentType,
+            required: !!op.requestBody.required,
+            requiredFields: Array.isArray(content.schema?.required) ? content.schema.required : [],
+            schema: content.schema
+          };
+        }
+      } else if (format === 'swagger2') {
+        const body = params.find(param => param.in === 'body');
+        const formFields = params.filter(param => param.in === 'formData');
+        if (body) {
+          requestBody = {
+            contentType: (Array.isArray(op.consumes) && op.consumes[0]) || (Array.isArray(doc.consumes) && doc.consumes[0]) || 'application/json',
+            required: !!body.required,
+            requiredFields: Array.isArray(body.schema?.required) ? body.schema.required : [],
+            schema: body.schema
+          };
+        } else if (formFields.length > 0) {
+          requestBody = {
+            contentType: (Array.isArray(op.consumes) && op.consumes[0]) || 'application/x-www-form-urlencoded',
+            required: formFields.some(field => field.required),
+            requiredFields: formFields.filter(field => field.required).map(field => field.name)
+          };
+        }
+      }
+
+      const responses = Object.entries<any>(op.responses || {}).map(([status, response]) => ({
+        status,
+        description: response?.description,
+        schema: format === 'openapi3' ? pickContent(response?.content)?.schema : response?.schema
+      }));
+
+      operations.push({
+        id: typeof op.operationId === 'string' && op.operationId ? op.operationId : `${method.toUpperCase()} ${apiPath}`,
+        method: method.toUpperCase(),
+        path: apiPath,
+        summary: op.summary || op.description?.split('\n')[0],
+        parameters: params.filter(param => param.in !== 'body' && param.in !== 'formData').map(toParameter),
+        requestBody,
+        responses,
+        secured: requiresAuth(op.security ?? doc.security)
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Parse an uploaded schema. Returns null when the text is not an OpenAPI 3 or
+ * Swagger 2 document (it is then used as free-form context); throws
+ * INVALID_INPUT for a document that claims to be one but has no paths.
+ */
+export function parseApiSchema(text: string, targetUrl?: string): ApiSpec | null {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    try {
+      doc = parseYaml(text);
+    } catch {
+      return null;
+    }
+  }
+  if (!doc || typeof doc !== 'object') return null;
+
+  const format: ApiSpec['format'] | undefined =
+    typeof doc.openapi === 'string' && doc.openapi.startsWith('3.') ? 'openapi3'
+      : String(doc.swagger) === '2.0' ? 'swagger2'
+        : undefined;
+  if (!format) return null;
+
+  if (!doc.paths || typeof doc.paths !== 'object' || Array.isArray(doc.paths)) {
+    throw new AgentError(`Invalid ${format === 'openapi3' ? 'OpenAPI' : 'Swagger'} schema: "paths" must be an object`, ErrorCodes.INVALID_INPUT, false);
+  }
+
+  const resolved = { ...doc, paths: resolveRefs(doc, doc.paths) };
+  return {
+    format,
+    title: String(doc.info?.title || 'API'),
+    version: String(doc.info?.version || ''),
+    baseUrl: findBaseUrl(doc, format, targetUrl),
+    operations: collectOperations(resolved, format)
+  };
+}
+
+/**
+ * One line per operation for the system prompt
+ */
+function describeOperation(op: ApiOperation): string {
+  const parts = [`- [${op.id}] ${op.method} ${op.path}${op.secured ? ' (auth)' : ''}${op.summary ? ` - ${op.summary}` : ''}`];
+  const required = op.parameters.filter(param => param.required && param.in !== 'path').map(param => `${param.name} (${param.in})`);
+  if (required.length > 0) parts.push(`required params: ${required.join(', ')}`);
+  if (op.requestBody) {
+    parts.push(`body ${op.requestBody.contentType}${op.requestBody.requiredFields.length > 0 ? `, required: ${op.requestBody.requiredFields.join(', ')}` : ''}`);
+  }
+  if (op.responses.length > 0) parts.push(`responses: ${op.responses.map(response => response.status).join(', ')}`);
+  return parts.join('; ');
+}
+
+/**
+ * The system prompt section for an API schema
+ */
+export function buildApiSchemaPrompt(spec: ApiSpec): string {
+  const label = spec.format === 'openapi3' ? 'OpenAPI 3' : 'Swagger 2';
+  const listed = spec.operations.slice(0, MAX_PROMPT_OPERATIONS);
+  const lines = [
+    `API SCHEMA (${label} "${spec.title}"${spec.version ? ` v${spec.version}` : ''}, base URL ${spec.baseUrl || 'unknown'}, ${spec.operations.length} operations):`,
+    ...listed.map(describeOperation)
+  ];
+  if (spec.operations.length > listed.length) {
+    lines.push(`- ... and ${spec.operations.length - listed.length} more (see getApiCoverage)`);
+  }
+  return lines.join('\n');
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex for request URLs of an operation: path templates match any segment,
+ * optionally after the base URL's path
+ */
+function operationPathRegex(op: ApiOperation, basePath: string): RegExp {
+  const pathSource = op.path
+    .split(/\{[^}]+\}/)
+    .map(escapeRegExp)
+    .join('[^/]+');
+  return new RegExp(`^(${escapeRegExp(basePath)})?${pathSource}/?$`, 'i');
+}
+
+/**
+ * Method and path of each API request a spec makes with the request fixture
+ * (request.get('/pets'), request.fetch(`${API}/pets/${id}`, { method: 'DELETE' }), ...)
+ */
+function findRequestCalls(code: string): Array<{ method: string; path: string }> {
+  const calls: Array<{ method: string; path: string }> = [];
+  const callPattern = /\.(get|post|put|patch|delete|head|fetch)\(\s*(['"`])((?:\\.|(?!\2)[^\\])*)\2/g;
+
+  for (const match of code.matchAll(callPattern)) {
+    const [, verb, , url] = match;
+    // Only URLs: skips Map.get('key') and the like
+    if (!/^(\/|https?:|\$\{)/.test(url)) continue;
+
+    const method = verb === 'fetch'
+      ? (code.substring(match.index! + match[0].length, match.index! + match[0].length + 300).match(/method:\s*['"`](\w+)/)?.[1] || 'GET')
+      : verb;
+
+    const path = url
+      .replace(/^\$\{[^}]*\}/, '') // leading base URL variable
+      .replace(/\$\{[^}]*\}/g, 'x') // interpolated path parameters
+      .replace(/^https?:\/\/[^/]+/, '')
+      .replace(/[?#].*$/, '');
+    calls.push({ method: method.toUpperCase(), path: path || '/' });
+  }
+  return calls;
+}
+
+/**
+ * Which operations the specs test: a test title tagged "[operationId]", or a
+ * request call matching the operation's method and path
+ */
+export function computeApiCoverage(spec: ApiSpec, files: Array<{ path: string; content: string }>): ApiCoverage {
+  let basePath = '';
+  try {
+    basePath = spec.baseUrl ? new URL(spec.baseUrl).pathname.replace(/\/$/, '') : '';
+  } catch {
+    // Relative or missing base URL
+  }
+
+  const scanned = files.map(file => ({ path: file.path, content: file.content, calls: findRequestCalls(file.content) }));
+  const operations = spec.operations.map(op => {
+    const pathRegex = operationPathRegex(op, basePath);
+    const covering = scanned
+      .filter(file => file.content.includes(`[${op.id}]`) ||
+        file.calls.some(call => call.method === op.method && pathRegex.test(call.path)))
+      .map(file => file.path);
+    return { id: op.id, method: op.method, path: op.path, files: covering };
+  });
+
+  return {
+    total: operations.length,
+    covered: operations.filter(op => op.files.length > 0).length,
+    operations
+  };
+}
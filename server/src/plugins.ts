@@ -0,0 +1,148 @@
+/**
+ * Custom tool plugins
+ *
+ * This module provides:
+ * - Discovery of plugin modules in PLUGINS_DIR at startup (.js, and .ts when
+ *   running under ts-node)
+ * - Validation of each exported CustomTool and its inputSchema
+ * - Namespaced tool names (<plugin>__<tool>) so plugins can't shadow each
+ *   other; names taken by a built-in tool or under an MCP server's prefix
+ *   are skipped
+ *
+ * A plugin module exports one CustomTool or an array of them, as the default
+ * export, as `tools`, or as named exports.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CustomTool } from './types';
+
+const PLUGINS_DIR = process.env.PLUGINS_DIR || path.join(__dirname, '..', 'plugins');
+const MAX_TOOL_NAME_LENGTH = 64; // OpenAI and Anthropic function name limit
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+export interface PluginTool extends CustomTool {
+  plugin: string; // file the tool came from
+}
+
+let pluginTools: PluginTool[] = [];
+
+/**
+ * Check a tool's inputSchema: an object schema whose properties each declare
+ * a JSON Schema type, and whose required keys exist. Returns an error or null.
+ */
+export function validateInputSchema(schema: any): string | null {
+  if (!schema || typeof schema !== 'object') return 'inputSchema must be an object';
+  if (schema.type !== 'object') return 'inputSchema.type must be "object"';
+  if (!schema.properties || typeof schema.properties !== 'object' || Array.isArray(schema.properties)) {
+    return 'inputSchema.properties must be an object';
+  }
+
+  for (const [key, property] of Object.entries<any>(schema.properties)) {
+    const types = Array.isArray(property?.type) ? property.type : [property?.type];
+    if (!property || typeof property !== 'object' || !types.every((type: any) => JSON_SCHEMA_TYPES.includes(type))) {
+      return `inputSchema.properties.${key} needs a valid JSON Schema "type"`;
+    }
+  }
+
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || schema.required.some((key: any) => typeof key !== 'string')) {
+      return 'inputSchema.required must be an array of property names';
+    }
+    const unknown = schema.required.find((key: string) => !(key in schema.properties));
+    if (unknown) return `inputSchema.required lists unknown property "${unknown}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Check the rest of a tool; returns an error message or null
+ */
+function validateTool(tool: any): string | null {
+  if (!tool || typeof tool !== 'object') return 'not a tool object';
+  if (typeof tool.name !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(tool.name)) {
+    return 'name must contain only letters, digits, "_" and "-"';
+  }
+  if (typeof tool.description !== 'string' || !tool.description.trim()) return 'description is required';
+  if (typeof tool.execute !== 'function') return 'execute must be a function';
+  return validateInputSchema(tool.inputSchema);
+}
+
+/**
+ * The tools a plugin module exports
+ */
+function exportedTools(mod: any): any[] {
+  const exported = mod?.default ?? mod?.tools ?? mod;
+  if (Array.isArray(exported)) return exported;
+  if (exported && typeof exported.execute === 'function') return [exported];
+  // Named exports
+  return Object.values(exported || {}).flatMap(value => Array.isArray(value) ? value : [value]);
+}
+
+/**
+ * Load every plugin in the directory. Invalid tools, and tools whose name is
+ * a reserved tool name or starts with "<mcpPrefix>__", are skipped and reported.
+ */
+export function loadPlugins(
+  pluginsDir: string = PLUGINS_DIR,
+  reserved: { toolNames?: string[]; mcpPrefixes?: string[] } = {}
+): { tools: PluginTool[]; errors: string[] } {
+  const tools: PluginTool[] = [];
+  const errors: string[] = [];
+
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(pluginsDir).sort();
+  } catch {
+    // No plugins directory
+  }
+
+  // .ts plugins need ts-node (npm run dev); the compiled server loads .js
+  const loadsTypeScript = !!require.extensions['.ts'];
+  for (const file of files) {
+    const ext = path.extname(file);
+    if (ext !== '.js' && !(ext === '.ts' && loadsTypeScript && !file.endsWith('.d.ts'))) continue;
+
+    const namespace = path.basename(file, ext).replace(/[^a-zA-Z0-9_-]/g, '_');
+    let mod: any;
+    try {
+      mod = require(path.join(pluginsDir, file));
+    } catch (error: any) {
+      errors.push(`${file}: failed to load (${error.message})`);
+      continue;
+    }
+
+    for (const tool of exportedTools(mod)) {
+      const error = validateTool(tool);
+      if (error) {
+        errors.push(`${file}: ${tool?.name || 'export'} skipped (${error})`);
+        continue;
+      }
+
+      const name = `${namespace}__${tool.name}`;
+      const mcpPrefix = reserved.mcpPrefixes?.find(prefix => prefix && name.startsWith(`${prefix}__`));
+      if (name.length > MAX_TOOL_NAME_LENGTH) {
+        errors.push(`${file}: ${tool.name} skipped (name ${name} is longer than ${MAX_TOOL_NAME_LENGTH} characters)`);
+      } else if (mcpPrefix) {
+        errors.push(`${file}: ${tool.name} skipped (${name} would clash with the tools of MCP server prefix "${mcpPrefix}")`);
+      } else if (reserved.toolNames?.includes(name)) {
+        errors.push(`${file}: ${tool.name} skipped (${name} is a built-in tool)`);
+      } else if (tools.some(existing => existing.name === name)) {
+        errors.push(`${file}: ${tool.name} skipped (duplicate name ${name})`);
+      } else {
+        tools.push({ ...tool, name, plugin: file });
+      }
+    }
+  }
+
+  pluginTools = tools;
+  return { tools, errors };
+}
+
+/**
+ * Tools loaded by the last loadPlugins() call
+ */
+export function getPluginTools(): PluginTool[] {
+  return pluginTools;
+}
@@ -1,11 +1,12 @@
 /**
- * Rate Limiter and Token Usage Tracker for OpenAI API
+ * Rate Limiter and Token Usage Tracker for LLM API calls
  * 
  * This module provides:
  * - Token usage tracking per minute
  * - Automatic rate limiting with exponential backoff
  * - Request queuing to prevent exceeding limits
  * - Graceful handling of 429 errors
+ * - Cancellation of waits through an AbortSignal
  */
 
 interface RateLimitConfig {
@@ -39,7 +40,7 @@ export class RateLimiter {
   private isProcessingQueue: boolean = false;
   private currentTokens: number = 0;
   private lastResetTime: number = Date.now();
-  private logger: RateLimitLogger | null = null;
+  private loggers = new Set<RateLimitLogger>();
 
   constructor(config: Partial<RateLimitConfig> = {}) {
     this.config = {
@@ -53,20 +54,21 @@ export class RateLimiter {
   }
 
   /**
-   * Set logger callback for SSE integration
+   * Add a logger callback for SSE integration. Returns a function that removes it.
    */
-  public setLogger(logger: RateLimitLogger | null): void {
-    this.logger = logger;
+  public addLogger(logger: RateLimitLogger): () => void {
+    this.loggers.add(logger);
+    return () => {
+      this.loggers.delete(logger);
+    };
   }
 
   /**
-   * Log message to both console and optional SSE logger
+   * Log message to the console and every registered SSE logger
    */
   private log(message: string): void {
     console.log(message);
-    if (this.logger) {
-      this.logger(message);
-    }
+    this.loggers.forEach(logger => logger(message));
   }
 
   /**
@@ -115,7 +117,7 @@ export class RateLimiter {
   /**
    * Wait until we have enough token capacity (loops until capacity available)
    */
-  private async waitForTokenCapacity(requiredTokens: number): Promise<void> {
+  private async waitForTokenCapacity(requiredTokens: number, signal?: AbortSignal): Promise<void> {
     const maxWaitTime = 120000; // Max 2 minutes total wait
     const startTime = Date.now();
 
@@ -142,7 +144,7 @@ export class RateLimiter {
         if (waitTime > 0) {
           const needed = requiredTokens - availableTokens;
           this.log(`⏳ Rate limiter: Need ${needed.toLocaleString()} more tokens. Waiting ${Math.ceil(waitTime / 1000)}s...`);
-          await this.sleep(waitTime);
+          await this.sleep(waitTime, signal);
         }
       } else {
         // No history but somehow over limit - reset
@@ -178,10 +180,32 @@ export class RateLimiter {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, rejects early with the signal's reason when aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortReason(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.abortReason(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Error to reject with when a request is aborted
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private abortReason(signal: AbortSignal): any {
+    return signal.reason ?? new Error('Request cancelled');
   }
 
   /**
@@ -190,10 +214,16 @@ export class RateLimiter {
   public async executeWithRateLimit<T>(
     requestFn: () => Promise<T>,
     estimatedTokens?: number,
-    priority: number = 0
+    priority: number = 0,
+    signal?: AbortSignal
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const execute = async (): Promise<T> => {
+        // Request may have been cancelled while queued
+        if (signal?.aborted) {
+          throw this.abortReason(signal);
+        }
+
         // Estimate tokens if not provided
         let tokens = estimatedTokens;
         if (!tokens) {
@@ -201,7 +231,7 @@ export class RateLimiter {
         }
 
         // Reserve capacity (wait if needed)
-        await this.waitForTokenCapacity(tokens);
+        await this.waitForTokenCapacity(tokens, signal);
         
         // Reserve the estimated tokens
         this.recordTokenUsage(tokens);
@@ -244,7 +274,7 @@ export class RateLimiter {
               this.log(`⚠️ Rate limit hit (attempt ${attempt + 1}/${this.config.maxRetries + 1}). Waiting ${Math.ceil(waitTime / 1000)}s...`);
               
               if (attempt < this.config.maxRetries) {
-                await this.sleep(waitTime);
+                await this.sleep(waitTime, signal);
                 retryDelay = Math.min(
                   retryDelay * this.config.backoffMultiplier,
                   this.config.maxRetryDelay
@@ -0,0 +1,211 @@
+/**
+ * Secret redaction
+ *
+ * This module provides:
+ * - A redactor fed by named secrets (values of SECRET_ENV_VARS, the LLM API
+ *   keys, and entries of REDACTION_FILE) and secret patterns
+ * - Scrubbing of log messages, tool results and run results, replacing
+ *   named secrets with [REDACTED:NAME] and pattern matches with [REDACTED]
+ * - The reverse for tool arguments, so the agent can type a secret it
+ *   never sees; only for revealable secrets (run credentials and
+ *   REDACTION_FILE entries), never the server's own keys
+ * - Rewriting of literal revealable secrets in generated test code into
+ *   process.env references
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const REDACTION_FILE = process.env.REDACTION_FILE || path.join(__dirname, '..', 'redaction.json');
+const MIN_SECRET_LENGTH = 4; // shorter values would redact ordinary words
+
+// Secrets the server itself holds
+const BUILTIN_SECRET_ENV_VARS = ['OPENAI_API_KEY', 'AZURE_OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_API_KEY'];
+
+// Credentials with a recognizable shape
+const BUILTIN_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{20,}/g, // OpenAI / Anthropic API keys
+  /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key ids
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g // GitHub tokens
+];
+
+const MARKER = /\[REDACTED:([A-Za-z_][A-Za-z0-9_]*)\]/g;
+
+interface NamedSecret {
+  name: string;
+  value: string;
+  revealable: boolean; // may be typed into the browser and given to test runs
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class Redactor {
+  private secrets: NamedSecret[] = [];
+  private patterns: RegExp[];
+
+  constructor(patterns: RegExp[] = BUILTIN_PATTERNS) {
+    this.patterns = patterns;
+  }
+
+  /**
+   * Register a secret value under the environment variable name it is
+   * available as (for markers and process.env rewrites). A secret that is not
+   * revealable is only ever redacted.
+   */
+  public addSecret(name: string, value: string | undefined, revealable = true): void {
+    if (!value || value.length < MIN_SECRET_LENGTH) return;
+    if (this.secrets.some(secret => secret.value === value)) return;
+    this.secrets.push({ name, value, revealable });
+    // Longest first, so a secret containing another is replaced whole
+    this.secrets.sort((a, b) => b.value.length - a.value.length);
+  }
+
+  /**
+   * A copy for one run, so per-run secrets don't leak into other runs
+   */
+  public fork(): Redactor {
+    const copy = new Redactor(this.patterns);
+    copy.secrets = [...this.secrets];
+    return copy;
+  }
+
+  public redactText(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret.value).join(`[REDACTED:${secret.name}]`);
+    }
+    for (const pattern of this.patterns) {
+      result = result.replace(pattern, '[REDACTED]');
+    }
+    return result;
+  }
+
+  /**
+   * Redact every string in a value (log message, tool result, ...)
+   */
+  public redact<T>(value: T): T {
+    return this.mapStrings(value, text => this.redactText(text));
+  }
+
+  /**
+   * Put the real values back in place of [REDACTED:NAME] markers of
+   * revealable secrets; other markers stay as they are
+   */
+  public reveal<T>(value: T): T {
+    return this.mapStrings(value, text => text.replace(MARKER, (marker, name) =>
+      this.revealable().find(secret => secret.name === name)?.value ?? marker));
+  }
+
+  /**
+   * Revealable secrets as environment variables, for test runs of rewritten specs
+   */
+  public env(): Record<string, string> {
+    return Object.fromEntries(this.revealable().map(secret => [secret.name, secret.value]));
+  }
+
+  /**
+   * Replace string literals holding a revealable secret (or its marker) with
+   * process.env references; other secrets are left as markers. Returns the
+   * rewritten code and the variables used.
+   */
+  public rewriteSecretsInCode(code: string, typescript: boolean): { code: string; envVars: string[] } {
+    for (const secret of this.secrets.filter(item => !item.revealable)) {
+      code = code.split(secret.value).join(`[REDACTED:${secret.name}]`);
+    }
+
+    const envVars = new Set<string>();
+    const lookup = new Map<string, string>();
+    for (const secret of this.revealable()) {
+      lookup.set(secret.value, secret.name);
+      lookup.set(`[REDACTED:${secret.name}]`, secret.name);
+    }
+    if (lookup.size === 0) return { code, envVars: [] };
+
+    const needle = new RegExp(Array.from(lookup.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'), 'g');
+    const envRef = (name: string) => {
+      envVars.add(name);
+      return `process.env.${name}`;
+    };
+
+    const rewritten = code.replace(/(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g, (literal, quote: string, body: string) => {
+      needle.lastIndex = 0;
+      if (!needle.test(body)) return literal;
+
+      // The whole literal is the secret: use the variable directly
+      const exact = lookup.get(body);
+      if (exact) return `${envRef(exact)}${typescript ? '!' : ''}`;
+
+      // Otherwise interpolate it into a template literal
+      const template = quote === '`'
+        ? body
+        : body.replace(/\\(['"])/g, '$1').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+      return '`' + template.replace(needle, match => `\${${envRef(lookup.get(match)!)}}`) + '`';
+    });
+
+    return { code: rewritten, envVars: Array.from(envVars) };
+  }
+
+  private revealable(): NamedSecret[] {
+    return this.secrets.filter(secret => secret.revealable);
+  }
+
+  private mapStrings<T>(value: T, map: (text: string) => string): T {
+    if (this.secrets.length === 0 && this.patterns.length === 0) return value;
+    if (typeof value === 'string') return map(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.mapStrings(item, map)) as T;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, map)])) as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * Build the server-wide redactor from the environment and REDACTION_FILE:
+ * { "secrets": { "NAME": "value" | null (read from env) }, "patterns": ["regex", ...] }
+ */
+function loadRedactor(): Redactor {
+  let config: { secrets?: Record<string, string | null>; patterns?: string[] } = {};
+  try {
+    if (fs.existsSync(REDACTION_FILE)) {
+      config = JSON.parse(fs.readFileSync(REDACTION_FILE, 'utf-8'));
+    }
+  } catch (error: any) {
+    console.error(`Failed to read ${REDACTION_FILE}: ${error.message}`);
+  }
+
+  const patterns = [...BUILTIN_PATTERNS];
+  for (const pattern of config.patterns || []) {
+    try {
+      patterns.push(new RegExp(pattern, 'g'));
+    } catch (error: any) {
+      console.error(`Ignoring invalid redaction pattern "${pattern}": ${error.message}`);
+    }
+  }
+
+  // The server's keys and SECRET_ENV_VARS are only redacted: revealing them
+  // would let the model (or text on the page) type them into the target site
+  const redactor = new Redactor(patterns);
+  const envVars = (process.env.SECRET_ENV_VARS || '').split(',').map(name => name.trim()).filter(Boolean);
+  for (const name of [...BUILTIN_SECRET_ENV_VARS, ...envVars]) {
+    redactor.addSecret(name, process.env[name], false);
+  }
+  for (const [name, value] of Object.entries(config.secrets || {})) {
+    redactor.addSecret(name, value ?? process.env[name]);
+  }
+  return redactor;
+}
+
+// Singleton instance
+let redactorInstance: Redactor | null = null;
+
+/**
+ * Get the server-wide redactor; fork it for per-run secrets
+ */
+export function getRedactor(): Redactor {
+  if (!redactorInstance) {
+    redactorInstance = loadRedactor();
+  }
+  return redactorInstance;
+}
@@ -0,0 +1,206 @@
+/**
+ * Repair phase for generated tests that fail
+ *
+ * This module provides:
+ * - Per-test tracking of repair attempts, up to MAX_REPAIR_ATTEMPTS
+ * - Failure context for the agent: error, failing source line, locator, page URL
+ * - The final healed/unhealed status of every test that failed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TESTS_DIR } from './tools';
+import { TestCaseResult, TestRepairResult, TestRunReport } from './types';
+
+export const MAX_REPAIR_ATTEMPTS = parseInt(process.env.MAX_REPAIR_ATTEMPTS || '3', 10);
+const MAX_TESTS_PER_REPAIR = 3; // keep each repair prompt small
+const MAX_ERROR_LENGTH = 800;
+const SOURCE_CONTEXT_LINES = 2;
+const MAX_SNAPSHOT_LENGTH = 3000;
+
+export interface RepairContext {
+  test: TestCaseResult;
+  attempt: number;
+  failingSource?: string; // numbered lines around the failure, failing line marked
+  locator?: string;
+  pageUrl?: string;
+}
+
+interface TrackedTest {
+  file: string;
+  title: string;
+  attempts: number;
+  status: 'failing' | 'healed' | 'unhealed';
+}
+
+/**
+ * Tracks failing tests across test runs and decides which to repair next
+ */
+export class RepairTracker {
+  private maxAttempts: number;
+  private tests = new Map<string, TrackedTest>();
+
+  constructor(maxAttempts: number = MAX_REPAIR_ATTEMPTS) {
+    this.maxAttempts = Math.max(0, maxAttempts);
+  }
+
+  public get attemptLimit(): number {
+    return this.maxAttempts;
+  }
+
+  /**
+   * Update test states from a test run. Returns the failing tests to repair
+   * now, tests that just healed, and tests that ran out of attempts.
+   */
+  public recordRun(report: TestRunReport): {
+    toRepair: Array<{ test: TestCaseResult; attempt: number }>;
+    healed: TestCaseResult[];
+    exhausted: TestCaseResult[];
+  } {
+    const toRepair: Array<{ test: TestCaseResult; attempt: number }> = [];
+    const healed: TestCaseResult[] = [];
+    const exhausted: TestCaseResult[] = [];
+
+    for (const test of report.tests) {
+      const key = `${test.file}::${test.title}`;
+      const tracked = this.tests.get(key);
+
+      if (test.status === 'passed' || test.status === 'flaky') {
+        if (tracked && tracked.status !== 'healed') {
+          tracked.status = 'healed';
+          healed.push(test);
+        }
+        continue;
+      }
+      if (test.status === 'skipped') continue;
+
+      const entry: TrackedTest = tracked || { file: test.file, title: test.title, attempts: 0, status: 'failing' };
+      this.tests.set(key, entry);
+
+      if (entry.attempts >= this.maxAttempts) {
+        // Report running out of attempts once
+        if (entry.status !== 'unhealed') {
+          entry.status = 'unhealed';
+          exhausted.push(test);
+        }
+      } else {
+        entry.status = 'failing';
+        if (toRepair.length < MAX_TESTS_PER_REPAIR) {
+          entry.attempts++;
+          toRepair.push({ test, attempt: entry.attempts });
+        }
+      }
+    }
+
+    return { toRepair, healed, exhausted };
+  }
+
+  /**
+   * Final status of every test that failed during the run
+   */
+  public results(): TestRepairResult[] {
+    return Array.from(this.tests.values()).map(test => ({
+      file: test.file,
+      title: test.title,
+      attempts: test.attempts,
+      status: test.status === 'healed' ? 'healed' : 'unhealed'
+    }));
+  }
+}
+
+/**
+ * Pull the locator a failing action or assertion was waiting for out of a
+ * Playwright error message
+ */
+function extractLocator(message: string): string | undefined {
+  const match = message.match(/(?:waiting for|Locator:)\s+((?:locator|getBy\w+|page\.\w+)\(.*)/)
+    || message.match(/((?:locator|getBy\w+)\((?:'[^']*'|"[^"]*"|[^)])*\)(?:\.\w+\([^)]*\))*)/);
+  return match?.[1].trim();
+}
+
+/**
+ * Resolve the URL a test was on when it failed: the last page.goto before
+ * the failing line, relative to the target URL
+ */
+function findPageUrl(sourceLines: string[], failingLine: number, targetUrl: string): string | undefined {
+  for (let i = Math.min(failingLine, sourceLines.length) - 1; i >= 0; i--) {
+    const match = sourceLines[i].match(/\.goto\(\s*(['"`])([^'"`]+)\1/);
+    if (match) {
+      try {
+        return new URL(match[2], targetUrl).toString();
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gather what the agent needs to patch a failing test, read from its spec
+ */
+export function buildRepairContext(test: TestCaseResult, attempt: number, targetUrl: string): RepairContext {
+  const context: RepairContext = {
+    test,
+    attempt,
+    locator: test.error ? extractLocator(test.error.message) : undefined
+  };
+
+  const failingLine = test.error?.location?.file === test.file ? test.error.location.line : test.line;
+
+  try {
+    const sourceLines = fs.readFileSync(path.join(TESTS_DIR, test.file), 'utf-8').split('\n');
+    const start = Math.max(1, failingLine - SOURCE_CONTEXT_LINES);
+    const end = Math.min(sourceLines.length, failingLine + SOURCE_CONTEXT_LINES);
+
+    context.failingSource = sourceLines
+      .slice(start - 1, end)
+      .map((line, index) => `${start + index === failingLine ? '>' : ' '} ${start + index} | ${line}`)
+      .join('\n');
+    context.pageUrl = findPageUrl(sourceLines, failingLine, targetUrl);
+  } catch {
+    // Spec was renamed or removed; repair with the error alone
+  }
+
+  context.pageUrl = context.pageUrl || targetUrl;
+  return context;
+}
+
+/**
+ * Text of a browser_snapshot result, trimmed for the repair prompt
+ */
+export function formatSnapshot(result: any): string {
+  const text = Array.isArray(result?.content)
+    ? result.content.filter((item: any) => item.type === 'text').map((item: any) => item.text).join('\n')
+    : JSON.stringify(result);
+  return text.length > MAX_SNAPSHOT_LENGTH
+    ? text.substring(0, MAX_SNAPSHOT_LENGTH) + '\n... [snapshot truncated]'
+    : text;
+}
+
+/**
+ * Build the REPAIR message for the agent from failure contexts and the page
+ * snapshots taken for them (keyed by URL)
+ */
+export function buildRepairPrompt(
+  contexts: RepairContext[],
+  snapshots: Map<string, string>,
+  maxAttempts: number
+): string {
+  const sections = contexts.map(({ test, attempt, failingSource, locator, pageUrl }) => {
+    const lines = [
+      `### ${test.file} › ${test.title} (attempt ${attempt}/${maxAttempts})`,
+      `Error: ${(test.error?.message || `Test ${test.status}`).substring(0, MAX_ERROR_LENGTH)}`
+    ];
+    if (failingSource) lines.push(`Failing line:\n${failingSource}`);
+    if (locator) lines.push(`Locator: ${locator}`);
+    if (pageUrl) {
+      lines.push(`Page: ${pageUrl}`);
+      const snapshot = snapshots.get(pageUrl);
+      if (snapshot) lines.push(`Current page snapshot:\n${snapshot}`);
+    }
+    return lines.join('\n');
+  });
+
+  return `REPAIR: These generated tests failed. For each spec, fix only the failing test using the error and the current page snapshot (e.g. correct the locator, wait for the element, handle a dialog). Save the patched spec with saveTestFile under the same filePath, keeping the passing tests unchanged, then re-run just that file with runPlaywrightTests.\n\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Replay recorded cassettes through the agent loop, offline
+ *
+ * Usage: npm run replay -- <cassette.json> [<cassette.json> ...]
+ *
+ * Each cassette is fed back to runAgent with no LLM, browser or network
+ * access. Exits non-zero if any replay diverges from its recording.
+ */
+
+import * as path from 'path';
+import { runAgent, ErrorCodes } from './agent';
+import { Cassette } from './cassette';
+
+async function replayCassette(cassettePath: string): Promise<boolean> {
+  const options = { mode: 'replay' as const, path: path.resolve(cassettePath) };
+
+  let cassette: Cassette;
+  try {
+    cassette = Cassette.load(options);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    return false;
+  }
+
+  console.log(`\n📼 Replaying ${cassettePath} (${cassette.targetUrl})`);
+  const result = await runAgent(cassette.targetUrl, cassette.schema, (log) => {
+    console.log(`  [${log.type}] ${log.message}`);
+  }, { cassette: options, scope: cassette.scope, authProfile: cassette.authProfile });
+
+  if (result.errorCode === ErrorCodes.CASSETTE_MISMATCH || result.errorCode === ErrorCodes.INVALID_INPUT) {
+    console.error(`❌ ${cassettePath}: ${result.error}`);
+    return false;
+  }
+
+  console.log(`✅ ${cassettePath}: replayed (${result.success ? 'completed' : `failed with ${result.errorCode}`}, as recorded)`);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const cassettePaths = process.argv.slice(2);
+  if (cassettePaths.length === 0) {
+    console.error('Usage: npm run replay -- <cassette.json> [<cassette.json> ...]');
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const cassettePath of cassettePaths) {
+    if (!(await replayCassette(cassettePath))) failures++;
+  }
+
+  console.log(`\n${cassettePaths.length - failures}/${cassettePaths.length} cassettes replayed cleanly`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,252 @@
+/**
+ * Revision history of generated test files
+ *
+ * This module provides:
+ * - A history per spec name, kept in REVISIONS_DIR as one JSON file per name.
+ *   A file in a run's folder is named by the run's target host and its path
+ *   in the folder, so the same spec generated by later runs (each in its own
+ *   folder) continues one history; other files by their path under tests/
+ * - Recording of every write with the run id, time and path, keeping the
+ *   content found on disk first when the spec was changed outside
+ *   saveTestFile (by hand, or before it had a history)
+ * - Unified diffs between any two revisions, and restoring a revision (which
+ *   is recorded as a new revision, so a restore can be undone too)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { AgentError, ErrorCodes } from './errors';
+
+const TESTS_DIR = path.join(__dirname, '..', 'tests');
+export const REVISIONS_DIR = process.env.REVISIONS_DIR || path.join(__dirname, '..', 'revisions');
+const MAX_REVISIONS = parseInt(process.env.MAX_REVISIONS || '50', 10); // per file; the oldest are dropped
+
+export interface Revision {
+  revision: number; // 1, 2, ... per file, never reused
+  savedAt: string;
+  size: number;
+  path: string; // the file written, relative to tests/
+  source: 'save' | 'external' | 'restore'; // external: found on disk, written outside saveTestFile
+  runId?: string; // the run that saved it
+  restoredFrom?: number;
+}
+
+interface StoredRevision extends Revision {
+  content: string;
+}
+
+interface RevisionHistory {
+  file: string;
+  revisions: StoredRevision[];
+}
+
+export interface RevisionFileSummary {
+  file: string;
+  revisions: number;
+  latest: Revision;
+}
+
+const withoutContent = ({ content, ...revision }: StoredRevision): Revision => revision;
+
+export class RevisionStore {
+  constructor(
+    private readonly testsDir: string = TESTS_DIR,
+    private readonly revisionsDir: string = REVISIONS_DIR
+  ) {}
+
+  /**
+   * The history name of a file written to fullPath. targetUrl is the run's
+   * target: "shop.example.com/login.spec.ts" for tests/runs/<run id>/login.spec.ts
+   */
+  public nameOf(fullPath: string, targetUrl?: string): string {
+    const [runDir, ...inRun] = this.relativePath(fullPath).split('/');
+    if (targetUrl && runDir === 'runs' && inRun.length > 1) {
+      return [new URL(targetUrl).host.replace(/:/g, '_'), ...inRun.slice(1)].join('/');
+    }
+    return this.relativePath(fullPath);
+  }
+
+  /**
+   * Validate a history name (as listed by listFiles), with "/" separators
+   */
+  public keyOf(name: string): string {
+    const key = path.posix.normalize(name.split(path.sep).join('/'));
+    if (key === '.' || key === '..' || key.startsWith('../') || path.posix.isAbsolute(key)) {
+      throw new AgentError(`Invalid revision history name: ${name}`, ErrorCodes.INVALID_INPUT);
+    }
+    return key;
+  }
+
+  /**
+   * Whether an earlier version of the named spec was recorded
+   */
+  public has(name: string): boolean {
+    return this.load(this.keyOf(name)).revisions.length > 0;
+  }
+
+  /**
+   * Record a write of content to fullPath under a history name.
+   * previousContent is what the file held before the write (undefined if it
+   * did not exist). It, or else the file the spec was last written to (by an
+   * earlier run), becomes a revision of its own when the history doesn't end
+   * with it. Returns the new revision.
+   */
+  public recordWrite(
+    name: string,
+    fullPath: string,
+    previousContent: string | undefined,
+    content: string,
+    source: { runId?: string; restoredFrom?: number } = {}
+  ): Revision {
+    const history = this.load(this.keyOf(name));
+    const last = history.revisions[history.revisions.length - 1];
+    const filePath = this.relativePath(fullPath);
+
+    let previous = previousContent !== undefined ? { content: previousContent, path: filePath } : undefined;
+    if (!previous && last && last.path !== filePath) {
+      const lastFile = path.join(this.testsDir, last.path);
+      if (fs.existsSync(lastFile)) previous = { content: fs.readFileSync(lastFile, 'utf-8'), path: last.path };
+    }
+
+    if (previous && previous.content !== last?.content) {
+      this.append(history, previous.content, { path: previous.path, source: 'external' });
+    } else if (last && content === last.content && filePath === last.path && source.restoredFrom === undefined) {
+      return withoutContent(last); // saved again unchanged
+    }
+    const revision = this.append(history, content, {
+      path: filePath,
+      source: source.restoredFrom !== undefined ? 'restore' : 'save',
+      ...(source.runId && { runId: source.runId }),
+      ...(source.restoredFrom !== undefined && { restoredFrom: source.restoredFrom })
+    });
+
+    history.revisions = history.revisions.slice(-MAX_REVISIONS);
+    this.save(history);
+    return withoutContent(revision);
+  }
+
+  /**
+   * Files with a history, most recently changed first
+   */
+  public listFiles(): RevisionFileSummary[] {
+    if (!fs.existsSync(this.revisionsDir)) return [];
+    return fs.readdirSync(this.revisionsDir, { recursive: true })
+      .filter((entry): entry is string => typeof entry === 'string' && entry.endsWith('.json'))
+      .map(entry => this.load(entry.slice(0, -'.json'.length).split(path.sep).join('/')))
+      .filter(history => history.revisions.length > 0)
+      .map(history => ({
+        file: history.file,
+        revisions: history.revisions.length,
+        latest: withoutContent(history.revisions[history.revisions.length - 1])
+      }))
+      .sort((a, b) => b.latest.savedAt.localeCompare(a.latest.savedAt));
+  }
+
+  /**
+   * Revisions of a file, oldest first
+   */
+  public list(file: string): Revision[] {
+    return this.load(this.keyOf(file)).revisions.map(withoutContent);
+  }
+
+  public getContent(file: string, revision: number): string {
+    return this.find(this.load(this.keyOf(file)), revision).content;
+  }
+
+  /**
+   * Unified diff from one revision to another (the latest when to is omitted)
+   */
+  public diff(file: string, from: number, to?: number): string {
+    const history = this.load(this.keyOf(file));
+    const fromRevision = this.find(history, from);
+    const toRevision = to !== undefined ? this.find(history, to) : history.revisions[history.revisions.length - 1];
+    return createTwoFilesPatch(
+      `${history.file}@${fromRevision.revision}`,
+      `${history.file}@${toRevision.revision}`,
+      fromRevision.content,
+      toRevision.content,
+      fromRevision.savedAt,
+      toRevision.savedAt
+    );
+  }
+
+  /**
+   * Write a revision's content back to the file the spec was last written
+   * to, as a new revision
+   */
+  public restore(file: string, revision: number): Revision {
+    const key = this.keyOf(file);
+    const history = this.load(key);
+    const { content } = this.find(history, revision);
+    const fullPath = path.join(this.testsDir, history.revisions[history.revisions.length - 1].path);
+    const previousContent = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : undefined;
+
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content, 'utf-8');
+    return this.recordWrite(key, fullPath, previousContent, content, { restoredFrom: revision });
+  }
+
+  /**
+   * A file's path relative to tests/, with "/" separators
+   */
+  private relativePath(fullPath: string): string {
+    const relativePath = path.relative(this.testsDir, path.resolve(this.testsDir, fullPath));
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new AgentError(`File is outside the tests directory: ${fullPath}`, ErrorCodes.INVALID_INPUT);
+    }
+    return relativePath.split(path.sep).join('/');
+  }
+
+  private find(history: RevisionHistory, revision: number): StoredRevision {
+    const found = history.revisions.find(item => item.revision === revision);
+    if (!found) {
+      throw new AgentError(`Revision ${revision} of ${history.file} not found`, ErrorCodes.INVALID_INPUT);
+    }
+    return found;
+  }
+
+  private append(history: RevisionHistory, content: string, fields: Omit<Revision, 'revision' | 'savedAt' | 'size'>): StoredRevision {
+    const last = history.revisions[history.revisions.length - 1];
+    const revision: StoredRevision = {
+      revision: (last?.revision ?? 0) + 1,
+      savedAt: new Date().toISOString(),
+      size: Buffer.byteLength(content, 'utf-8'),
+      ...fields,
+      content
+    };
+    history.revisions.push(revision);
+    return revision;
+  }
+
+  private historyPath(key: string): string {
+    return path.join(this.revisionsDir, `${key}.json`);
+  }
+
+  private load(key: string): RevisionHistory {
+    const historyPath = this.historyPath(key);
+    if (!fs.existsSync(historyPath)) return { file: key, revisions: [] };
+    try {
+      return JSON.parse(fs.readFileSync(historyPath, 'utf-8'));
+    } catch (error: any) {
+      console.error(`Failed to read revisions of ${key}: ${error.message}`);
+      return { file: key, revisions: [] };
+    }
+  }
+
+  private save(history: RevisionHistory): void {
+    const historyPath = this.historyPath(history.file);
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    fs.writeFileSync(historyPath, JSON.stringify(history, null, 2));
+  }
+}
+
+// Singleton instance
+let revisionStoreInstance: RevisionStore | null = null;
+
+export function getRevisionStore(): RevisionStore {
+  if (!revisionStoreInstance) {
+    revisionStoreInstance = new RevisionStore();
+  }
+  return revisionStoreInstance;
+}
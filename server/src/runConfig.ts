@@ -0,0 +1,130 @@
+/**
+ * Target-aware Playwright config for a run's specs
+ *
+ * This module provides:
+ * - The playwright.config.ts written into each run's workspace: baseURL is
+ *   the target's origin unless BASE_URL overrides it, and BROWSERS picks the
+ *   browser projects, so the same specs run against dev, staging and prod
+ * - Rewriting of absolute URLs on the target's origin in page.goto,
+ *   page.waitForURL and expect(page).toHaveURL to paths relative to baseURL
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { RunWorkspace } from './workspace';
+
+export const RUN_CONFIG_FILE = 'playwright.config.ts';
+
+// Calls whose URL argument Playwright resolves against baseURL
+const URL_METHODS = ['goto', 'waitForURL', 'toHaveURL'];
+
+/**
+ * Source of a run's playwright.config.ts
+ */
+export function buildRunConfig(targetUrl: string, runId: string): string {
+  const origin = new URL(targetUrl).origin;
+  return `// Generated for ${origin} by run ${runId}. Runs this folder's specs against
+// BASE_URL (default: the target), e.g. from the server folder:
+//   BASE_URL=https://staging.example.com npx playwright test --config tests/runs/${runId}/${RUN_CONFIG_FILE}
+import * as path from 'path';
+import { defineConfig, devices } from '@playwright/test';
+
+const baseURL = process.env.BASE_URL || ${JSON.stringify(origin)};
+
+// Comma-separated browser projects: chromium, firefox, webkit
+const browsers = (process.env.BROWSERS || 'chromium').split(',').map(name => name.trim()).filter(Boolean);
+const browserDevices: Record<string, string> = { chromium: 'Desktop Chrome', firefox: 'Desktop Firefox', webkit: 'Desktop Safari' };
+
+// Runs with an auth profile set these: the setup project logs in once and
+// saves a storageState that every spec then starts from
+const authSetup = process.env.QA_AUTH_SETUP;
+const authState = process.env.QA_AUTH_STATE;
+
+export default defineConfig({
+  testDir: '.',
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  workers: process.env.CI ? 1 : undefined,
+  reporter: 'html',
+  use: {
+    baseURL,
+    trace: 'on-first-retry',
+  },
+  projects: [
+    ...(authSetup ? [{
+      name: 'setup',
+      testDir: path.dirname(authSetup),
+      testMatch: /auth\\.setup\\.ts$/,
+    }] : []),
+    ...browsers.map(name => ({
+      name,
+      use: {
+        ...devices[browserDevices[name] || name],
+        ...(authState ? { storageState: authState } : {}),
+      },
+      dependencies: authSetup ? ['setup'] : [],
+    })),
+  ],
+});
+`;
+}
+
+/**
+ * Write (or rewrite) the run's playwright.config.ts
+ */
+export function writeRunConfig(workspace: RunWorkspace): string {
+  const configFile = path.join(workspace.dir, RUN_CONFIG_FILE);
+  const existed = fs.existsSync(configFile);
+  const content = buildRunConfig(workspace.targetUrl, workspace.runId);
+  fs.mkdirSync(workspace.dir, { recursive: true });
+  fs.writeFileSync(configFile, content, 'utf-8');
+  workspace.recordFile(configFile, Buffer.byteLength(content), existed);
+  return configFile;
+}
+
+/**
+ * A URL on the target's origin as a path relative to baseURL
+ * ('https://shop.example.com/cart.html' becomes '/cart.html'); other URLs,
+ * relative ones and globs included, come back unchanged
+ */
+export function relativeUrl(url: string, targetUrl: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === new URL(targetUrl).origin ? `${parsed.pathname}${parsed.search}${parsed.hash}` : url;
+  } catch {
+    return url; // Not an absolute URL
+  }
+}
+
+/**
+ * Replace absolute URLs on the target's origin with paths relative to
+ * baseURL in the code's goto, waitForURL and toHaveURL calls
+ */
+export function relativizeUrls(fileName: string, code: string, targetUrl: string): { code: string; rewritten: number } {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.ES2020, true);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+        URL_METHODS.includes(node.expression.name.text)) {
+      const arg = node.arguments[0];
+      if (arg && (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg))) {
+        const relative = relativeUrl(arg.text, targetUrl);
+        if (relative !== arg.text) {
+          const quote = arg.getText(sourceFile)[0];
+          edits.push({ start: arg.getStart(sourceFile), end: arg.getEnd(), text: `${quote}${relative.replace(new RegExp(`[\\\\${quote}]`, 'g'), '\\$&')}${quote}` });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  let rewritten = code;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    rewritten = rewritten.substring(0, edit.start) + edit.text + rewritten.substring(edit.end);
+  }
+  return { code: rewritten, rewritten: edits.length };
+}
@@ -0,0 +1,123 @@
+/**
+ * Operator controls for a running agent
+ *
+ * This module provides:
+ * - Pausing and resuming the agent loop between iterations
+ * - Queuing operator instructions to inject into the conversation
+ * - Holding actions the safety policy flags until the operator approves
+ *   or denies them
+ */
+
+export class RunController {
+  private paused = false;
+  private pendingInstructions: string[] = [];
+  private resumeWaiters: Array<() => void> = [];
+  private pendingApprovals = new Map<string, (approved: boolean) => void>();
+  private nextApprovalId = 1;
+
+  /**
+   * Request a pause; takes effect before the agent's next iteration
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resume a paused run
+   */
+  public resume(): void {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Queue an operator instruction for the next iteration
+   */
+  public addInstruction(instruction: string): void {
+    this.pendingInstructions.push(instruction);
+  }
+
+  /**
+   * Take all queued instructions
+   */
+  public drainInstructions(): string[] {
+    const instructions = this.pendingInstructions;
+    this.pendingInstructions = [];
+    return instructions;
+  }
+
+  /**
+   * Wait until the run is resumed. Rejects with the signal's reason if aborted.
+   */
+  public waitWhilePaused(signal?: AbortSignal): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.resumeWaiters = this.resumeWaiters.filter(wake => wake !== onResume);
+        reject(signal!.reason);
+      };
+      const onResume = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.resumeWaiters.push(onResume);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Open an approval request. The decision resolves when the operator
+   * answers, or to false once timeoutMs passes; it rejects if the run aborts.
+   */
+  public requestApproval(timeoutMs: number, signal?: AbortSignal): { id: string; decision: Promise<boolean> } {
+    const id = String(this.nextApprovalId++);
+
+    const decision = new Promise<boolean>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const settle = (approved: boolean) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingApprovals.delete(id);
+        resolve(approved);
+      };
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.pendingApprovals.delete(id);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => settle(false), timeoutMs);
+
+      this.pendingApprovals.set(id, settle);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return { id, decision };
+  }
+
+  /**
+   * Answer a pending approval; false if there is no such request
+   */
+  public answerApproval(id: string, approved: boolean): boolean {
+    const settle = this.pendingApprovals.get(id);
+    if (!settle) return false;
+    settle(approved);
+    return true;
+  }
+}
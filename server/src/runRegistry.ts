@@ -0,0 +1,294 @@
+/**
+ * Run Registry for agent runs
+ *
+ * This module provides:
+ * - A record for every runAgent invocation (status, timing, logs, result)
+ * - Lookup of active and finished runs for the REST API
+ * - Event ids and a replay buffer so SSE clients can resume a stream
+ * - Persistence of run records to disk so history survives restarts
+ * - Redaction of known secrets before anything is stored or streamed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCodes } from './errors';
+import { getRedactor } from './redaction';
+import { AgentResponse, LogMessage, RunEvent, RunRecord, RunSummary } from './types';
+
+const RUNS_DIR = path.join(__dirname, '..', 'runs');
+const MAX_RUN_HISTORY = parseInt(process.env.MAX_RUN_HISTORY || '100', 10);
+
+type RunEventListener = (event: RunEvent) => void;
+
+/**
+ * Whether a run is still queued or running
+ */
+export function isActiveRun(run: RunRecord): boolean {
+  return run.status === 'queued' || run.status === 'running';
+}
+
+export class RunRegistry {
+  private runs = new Map<string, RunRecord>();
+  private listeners = new Map<string, Set<RunEventListener>>();
+  private runsDir: string;
+
+  constructor(runsDir: string = RUNS_DIR) {
+    this.runsDir = runsDir;
+
+    try {
+      if (!fs.existsSync(this.runsDir)) {
+        fs.mkdirSync(this.runsDir, { recursive: true });
+      }
+    } catch (error: any) {
+      console.error(`Failed to create runs directory: ${error.message}`);
+    }
+
+    this.loadPersistedRuns();
+  }
+
+  /**
+   * Load run records written by previous server processes
+   */
+  private loadPersistedRuns(): void {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.runsDir).filter(file => file.endsWith('.json'));
+    } catch {
+      return;
+    }
+
+    for (const file of entries) {
+      try {
+        const run: RunRecord = JSON.parse(fs.readFileSync(path.join(this.runsDir, file), 'utf-8'));
+        if (!run.id) continue;
+
+        // Records written before event ids existed
+        if (typeof run.lastEventId !== 'number') {
+          run.logs.forEach((log, index) => { log.id = index + 1; });
+          run.lastEventId = run.logs.length;
+        }
+
+        // A run still marked as active was interrupted by a restart
+        if (isActiveRun(run)) {
+          run.status = 'failed';
+          run.finishedAt = run.finishedAt || new Date().toISOString();
+          run.result = {
+            success: false,
+            error: 'Run interrupted by server restart',
+            errorCode: ErrorCodes.UNKNOWN
+          };
+          this.persist(run);
+        }
+
+        this.runs.set(run.id, run);
+      } catch (error: any) {
+        console.error(`Failed to load run record ${file}: ${error.message}`);
+      }
+    }
+
+    this.pruneHistory();
+  }
+
+  /**
+   * Write a run record to disk
+   */
+  private persist(run: RunRecord): void {
+    try {
+      fs.writeFileSync(path.join(this.runsDir, `${run.id}.json`), JSON.stringify(run, null, 2), 'utf-8');
+    } catch (error: any) {
+      console.error(`Failed to persist run ${run.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop the oldest finished runs beyond MAX_RUN_HISTORY
+   */
+  private pruneHistory(): void {
+    const finished = Array.from(this.runs.values())
+      .filter(run => !isActiveRun(run))
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+    while (finished.length > MAX_RUN_HISTORY) {
+      const oldest = finished.shift()!;
+      this.runs.delete(oldest.id);
+      try {
+        fs.unlinkSync(path.join(this.runsDir, `${oldest.id}.json`));
+      } catch {
+        // File may already be gone
+      }
+    }
+  }
+
+  /**
+   * Register a new run
+   */
+  public create(id: string, url: string, schema?: string): RunRecord {
+    const run: RunRecord = {
+      id,
+      url,
+      schema,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      logs: [],
+      lastEventId: 0
+    };
+    this.runs.set(id, run);
+    this.persist(run);
+    return run;
+  }
+
+  /**
+   * Append a log message to a run, assigning it the next event id
+   */
+  public appendLog(id: string, log: LogMessage): RunEvent {
+    const run = this.runs.get(id);
+    if (!run) {
+      return { ...log, id: 0 };
+    }
+
+    const event = { ...getRedactor().redact(log), id: ++run.lastEventId };
+    run.logs.push(event);
+    this.emit(id, event);
+    return event;
+  }
+
+  /**
+   * Mark a run as finished with the agent's final response.
+   * Returns the final "complete" event sent to stream subscribers.
+   */
+  public finish(id: string, result: AgentResponse): RunEvent | undefined {
+    const run = this.runs.get(id);
+    if (!run) return undefined;
+
+    run.status = result.success
+      ? 'completed'
+      : result.errorCode === ErrorCodes.CANCELLED ? 'cancelled' : 'failed';
+    run.finishedAt = new Date().toISOString();
+    run.queuePosition = undefined;
+    run.paused = false;
+    run.result = getRedactor().redact(result);
+    this.persist(run);
+    this.pruneHistory();
+
+    const event = this.finalEvent(run)!;
+    this.emit(id, event);
+    this.listeners.delete(id);
+    return event;
+  }
+
+  /**
+   * Build the final "complete" event of a finished run
+   */
+  public finalEvent(run: RunRecord): RunEvent | undefined {
+    if (!run.result) return undefined;
+    return { ...run.result, type: 'complete', id: run.lastEventId + 1 };
+  }
+
+  /**
+   * Events after lastEventId, for replay to a reconnecting client
+   */
+  public getEventsSince(id: string, lastEventId: number): RunEvent[] {
+    const run = this.runs.get(id);
+    if (!run) return [];
+
+    const events: RunEvent[] = run.logs
+      .filter(log => (log.id ?? 0) > lastEventId)
+      .map(log => ({ ...log, id: log.id! }));
+    const final = this.finalEvent(run);
+    if (final && final.id > lastEventId) {
+      events.push(final);
+    }
+    return events;
+  }
+
+  /**
+   * Listen for new events of a running run. Returns an unsubscribe function.
+   */
+  public subscribe(id: string, listener: RunEventListener): () => void {
+    if (!this.listeners.has(id)) {
+      this.listeners.set(id, new Set());
+    }
+    this.listeners.get(id)!.add(listener);
+
+    return () => {
+      this.listeners.get(id)?.delete(listener);
+    };
+  }
+
+  /**
+   * Notify stream subscribers of a run
+   */
+  private emit(id: string, event: RunEvent): void {
+    const listeners = this.listeners.get(id);
+    if (!listeners) return;
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        console.error(`Run event listener failed for ${id}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Record a run's position in the session queue (0 once it has a session)
+   */
+  public setQueuePosition(id: string, position: number): void {
+    const run = this.runs.get(id);
+    if (!run || !isActiveRun(run)) return;
+
+    run.status = position > 0 ? 'queued' : 'running';
+    run.queuePosition = position > 0 ? position : undefined;
+  }
+
+  /**
+   * Record whether an active run is paused by an operator
+   */
+  public setPaused(id: string, paused: boolean): void {
+    const run = this.runs.get(id);
+    if (run) {
+      run.paused = paused;
+    }
+  }
+
+  /**
+   * Get a full run record
+   */
+  public get(id: string): RunRecord | undefined {
+    return this.runs.get(id);
+  }
+
+  /**
+   * List all known runs, newest first
+   */
+  public list(): RunSummary[] {
+    return Array.from(this.runs.values())
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .map(run => ({
+        id: run.id,
+        url: run.url,
+        status: run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        queuePosition: run.queuePosition,
+        paused: run.paused,
+        logCount: run.logs.length,
+        success: run.result?.success,
+        errorCode: run.result?.errorCode
+      }));
+  }
+}
+
+// Singleton instance
+let runRegistryInstance: RunRegistry | null = null;
+
+/**
+ * Get or create the run registry instance
+ */
+export function getRunRegistry(): RunRegistry {
+  if (!runRegistryInstance) {
+    runRegistryInstance = new RunRegistry();
+  }
+  return runRegistryInstance;
+}
@@ -0,0 +1,285 @@
+/**
+ * Safety policy for the agent's actions
+ *
+ * This module provides:
+ * - Rules over the tool name, the target element (the agent's description
+ *   and its text in the last snapshot), the page URL and the values typed,
+ *   filled, selected or pressed; each rule denies the action, holds it for
+ *   operator approval, or allows it
+ * - The same checks for runPlaywrightTests, which runs the generated code
+ *   outside the browser tools: the string literals of the run's files stand
+ *   for its elements and values, and their source for the calls they make
+ * - Presets: "standard" (no account deletion, approval before payments and
+ *   outgoing messages), "read-only" (no typing, submitting or state-changing
+ *   clicks, nor test runs of specs that do any of that) and "off"
+ * - Loading of SAFETY_POLICY_FILE, with SAFETY_POLICY choosing the preset
+ *
+ * Rules are checked in order (site profile rules, then the policy file, then
+ * the preset) and the first match decides; anything unmatched is allowed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { compilePattern, statelessFlags } from './scope';
+
+const SAFETY_POLICY_FILE = process.env.SAFETY_POLICY_FILE || path.join(__dirname, '..', 'safety-policy.json');
+
+export type PolicyAction = 'deny' | 'approve' | 'allow';
+export type PolicyPresetName = 'standard' | 'read-only' | 'off';
+
+export interface PolicyRule {
+  action: PolicyAction;
+  tools?: string[]; // tool name globs ("browser_*"); any tool when omitted
+  element?: string; // case-insensitive text, or "/regex/flags", matched against the target element
+  url?: string; // scope pattern (URL glob, "/path/**" or "/regex/") matched against the page URL
+  value?: string; // like element, matched against typed/selected values and pressed keys
+  reason?: string;
+}
+
+export interface SafetyPolicyConfig {
+  preset?: PolicyPresetName;
+  rules?: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason: string;
+  rule?: string; // which rule matched, e.g. "rules[0]" or "read-only[2]"
+}
+
+// What the agent knows about the page when it calls a tool
+export interface PolicyContext {
+  pageUrl?: string;
+  snapshot?: string; // last accessibility snapshot, to resolve element refs to their text
+  specSource?: string; // for runPlaywrightTests: the source of the code it would run
+}
+
+const ACCOUNT_DELETION = '/\\b(delete|remove|close|deactivate|cancel|terminate)\\s+(my\\s+|your\\s+|the\\s+)?(account|profile|membership|subscription)\\b/i';
+const PAYMENT = '/\\b(place|submit|confirm)\\s+(my\\s+|your\\s+)?(order|payment|purchase)\\b|\\b(pay|buy)\\s+now\\b|\\bcomplete\\s+(purchase|payment)\\b/i';
+const OUTGOING_MESSAGE = '/\\b(send|submit)\\s+(message|email|e-mail|invitation|invite|inquiry|enquiry|feedback|request)\\b|\\bcontact\\s+us\\b/i';
+const CARD_NUMBER = '/^\\s*(\\d[ -]?){13,19}\\s*$/';
+const STATE_CHANGING = '/\\b(submit|save|send|delete|remove|buy|order|pay|checkout|check\\s+out|confirm|apply|update|publish|post|sign\\s+up|register|subscribe|add\\s+to\\s+(cart|bag|basket)|upload|invite|archive)\\b/i';
+const INPUT_TOOLS = ['browser_type', 'browser_fill_form', 'browser_select_option', 'browser_file_upload', 'browser_drag', 'browser_evaluate', 'browser_run_code'];
+// Playwright calls in a spec that type, submit or run scripts
+const SPEC_INPUT_CALLS = '/\\.(fill|type|pressSequentially|check|uncheck|setChecked|selectOption|setInputFiles|dragTo|dispatchEvent|evaluate|evaluateHandle)\\(|\\.press\\([^)]*enter/i';
+
+export const POLICY_PRESETS: Record<PolicyPresetName, PolicyRule[]> = {
+  standard: [
+    { action: 'deny', element: ACCOUNT_DELETION, reason: 'deleting or closing an account' },
+    { action: 'approve', tools: ['browser_click', 'browser_press_key', 'runPlaywrightTests'], element: PAYMENT, reason: 'placing an order or paying' },
+    { action: 'approve', tools: ['browser_type', 'browser_fill_form', 'runPlaywrightTests'], value: CARD_NUMBER, reason: 'entering a card number' },
+    { action: 'approve', tools: ['browser_click', 'browser_press_key', 'runPlaywrightTests'], element: OUTGOING_MESSAGE, reason: 'sending a message' }
+  ],
+  'read-only': [
+    { action: 'deny', tools: INPUT_TOOLS, reason: 'read-only policy: no typing, form input, uploads or scripts' },
+    { action: 'deny', tools: ['browser_press_key'], value: '/^enter$/i', reason: 'read-only policy: Enter can submit a form' },
+    { action: 'deny', tools: ['browser_click'], element: STATE_CHANGING, reason: 'read-only policy: the element looks like it changes data' },
+    { action: 'deny', tools: ['runPlaywrightTests'], value: SPEC_INPUT_CALLS, reason: 'read-only policy: the specs type, submit or run scripts' },
+    { action: 'deny', tools: ['runPlaywrightTests'], element: STATE_CHANGING, reason: 'read-only policy: the specs name elements that look like they change data' }
+  ],
+  off: []
+};
+
+const POLICY_ACTIONS: PolicyAction[] = ['deny', 'approve', 'allow'];
+
+/**
+ * Case-insensitive substring, or a regex for "/regex/flags"
+ */
+function compileText(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], statelessFlags(regex[2]));
+  return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+}
+
+/**
+ * Check a policy's shape; returns an error message or null
+ */
+export function validateSafetyPolicy(policy: any): string | null {
+  if (policy === undefined) return null;
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) return 'policy must be an object';
+  if (policy.preset !== undefined && !(policy.preset in POLICY_PRESETS)) {
+    return `preset must be one of: ${Object.keys(POLICY_PRESETS).join(', ')}`;
+  }
+  if (policy.rules === undefined) return null;
+  if (!Array.isArray(policy.rules)) return 'rules must be an array';
+
+  for (const [index, rule] of policy.rules.entries()) {
+    const label = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object') return `${label} must be an object`;
+    if (!POLICY_ACTIONS.includes(rule.action)) return `${label}.action must be "deny", "approve" or "allow"`;
+    if (rule.tools !== undefined && (!Array.isArray(rule.tools) || rule.tools.some((tool: any) => typeof tool !== 'string'))) {
+      return `${label}.tools must be an array of tool names`;
+    }
+    for (const key of ['element', 'url', 'value', 'reason']) {
+      if (rule[key] !== undefined && typeof rule[key] !== 'string') return `${label}.${key} must be a string`;
+    }
+    try {
+      if (rule.element) compileText(rule.element);
+      if (rule.value) compileText(rule.value);
+      if (rule.url) compilePattern(rule.url);
+    } catch (error: any) {
+      return `${label} has an invalid pattern: ${error.message}`;
+    }
+  }
+  return null;
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  label: string;
+  tools?: RegExp[];
+  element?: RegExp;
+  url?: ReturnType<typeof compilePattern>;
+  value?: RegExp;
+}
+
+function compileRule(rule: PolicyRule, label: string): CompiledRule {
+  return {
+    rule,
+    label,
+    tools: rule.tools?.map(tool => compilePattern(tool).regex),
+    element: rule.element ? compileText(rule.element) : undefined,
+    url: rule.url ? compilePattern(rule.url) : undefined,
+    value: rule.value ? compileText(rule.value) : undefined
+  };
+}
+
+/**
+ * The agent's descriptions of the elements a tool acts on, plus the
+ * snapshot line of each referenced element
+ */
+function targetElements(args: any, snapshot?: string): string[] {
+  const fields: any[] = Array.isArray(args.fields) ? args.fields : [];
+  const descriptions = [args.element, args.startElement, args.endElement, ...fields.map(field => field?.name)];
+  const refs = [args.ref, args.startRef, args.endRef, ...fields.map(field => field?.ref)];
+
+  if (snapshot) {
+    for (const ref of refs) {
+      if (typeof ref !== 'string' || !ref) continue;
+      const line = snapshot.split('\n').find(line => line.includes(`[ref=${ref}]`));
+      if (line) descriptions.push(line.trim());
+    }
+  }
+  return descriptions.filter((text): text is string => typeof text === 'string' && !!text);
+}
+
+/**
+ * The contents of the string literals in source code
+ */
+function stringLiterals(source: string): string[] {
+  return Array.from(source.matchAll(/(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g), match => match[2]);
+}
+
+/**
+ * Values a tool would type, fill, select or press
+ */
+function inputValues(args: any): string[] {
+  const fields: any[] = Array.isArray(args.fields) ? args.fields : [];
+  const values = [args.text, args.key, ...(Array.isArray(args.values) ? args.values : []), ...fields.map(field => field?.value)];
+  return values.filter(value => value !== undefined && value !== null).map(String);
+}
+
+export class SafetyPolicy {
+  public readonly preset: PolicyPresetName;
+  private rules: CompiledRule[];
+
+  /**
+   * Rules from each config apply in the order given, followed by the preset
+   * (the first config that names one, otherwise "standard")
+   */
+  constructor(...configs: Array<SafetyPolicyConfig | undefined>) {
+    this.preset = configs.find(config => config?.preset)?.preset ?? 'standard';
+    this.rules = [
+      ...configs.flatMap(config => (config?.rules || []).map((rule, index) => compileRule(rule, `rules[${index}]`))),
+      ...POLICY_PRESETS[this.preset].map((rule, index) => compileRule(rule, `${this.preset}[${index}]`))
+    ];
+  }
+
+  /**
+   * Decide whether a tool call may run. browser_navigate is checked against
+   * the URL it navigates to; other tools against the current page.
+   * runPlaywrightTests is checked against the code it runs (context.specSource).
+   */
+  public evaluate(toolName: string, args: any, context: PolicyContext = {}): PolicyDecision {
+    const pageUrl = toolName === 'browser_navigate' && typeof args?.url === 'string' ? args.url : context.pageUrl;
+    const specSource = toolName === 'runPlaywrightTests' ? context.specSource || '' : '';
+    const literals = specSource ? stringLiterals(specSource) : [];
+    const elements = [...targetElements(args || {}, context.snapshot), ...literals];
+    const values = [...inputValues(args || {}), ...literals, ...(specSource ? [specSource] : [])];
+
+    for (const compiled of this.rules) {
+      if (compiled.tools && !compiled.tools.some(regex => regex.test(toolName))) continue;
+      if (compiled.element && !elements.some(text => compiled.element!.test(text))) continue;
+      if (compiled.value && !values.some(value => compiled.value!.test(value))) continue;
+      if (compiled.url && !(pageUrl && this.matchesUrl(compiled.url, pageUrl))) continue;
+
+      return {
+        action: compiled.rule.action,
+        reason: compiled.rule.reason || `matched safety rule ${compiled.label}`,
+        rule: compiled.label
+      };
+    }
+    return { action: 'allow', reason: 'no safety rule matched' };
+  }
+
+  /**
+   * One line for the system prompt
+   */
+  public describe(): string {
+    const count = this.rules.length - POLICY_PRESETS[this.preset].length;
+    return `"${this.preset}" preset${count > 0 ? ` plus ${count} custom rule(s)` : ''}`;
+  }
+
+  private matchesUrl(pattern: ReturnType<typeof compilePattern>, url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return pattern.regex.test(pattern.pathOnly ? parsed.pathname + parsed.search : parsed.toString());
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Read SAFETY_POLICY_FILE ({ "preset", "rules": [...] }), with SAFETY_POLICY
+ * overriding the preset. An invalid file falls back to the preset alone.
+ */
+function loadSafetyPolicyConfig(): SafetyPolicyConfig {
+  let config: SafetyPolicyConfig = {};
+  try {
+    if (fs.existsSync(SAFETY_POLICY_FILE)) {
+      const loaded = JSON.parse(fs.readFileSync(SAFETY_POLICY_FILE, 'utf-8'));
+      const error = validateSafetyPolicy(loaded);
+      if (error) {
+        console.error(`Ignoring ${SAFETY_POLICY_FILE}: ${error}`);
+      } else {
+        config = loaded;
+      }
+    }
+  } catch (error: any) {
+    console.error(`Failed to read ${SAFETY_POLICY_FILE}: ${error.message}`);
+  }
+
+  const preset = process.env.SAFETY_POLICY as PolicyPresetName | undefined;
+  if (preset) {
+    if (preset in POLICY_PRESETS) {
+      config = { ...config, preset };
+    } else {
+      console.error(`Ignoring unknown SAFETY_POLICY preset "${preset}"`);
+    }
+  }
+  return config;
+}
+
+// Singleton instance
+let safetyPolicyConfigInstance: SafetyPolicyConfig | null = null;
+
+/**
+ * Get the server-wide policy config (read once, at first use)
+ */
+export function getSafetyPolicyConfig(): SafetyPolicyConfig {
+  if (!safetyPolicyConfigInstance) {
+    safetyPolicyConfigInstance = loadSafetyPolicyConfig();
+  }
+  return safetyPolicyConfigInstance;
+}
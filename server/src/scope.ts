@@ -0,0 +1,167 @@
+/**
+ * Per-run navigation scope
+ *
+ * This module provides:
+ * - Validation of the scope rules sent with a run request
+ * - A policy that decides whether a URL is in scope: allowed origins,
+ *   include/exclude patterns (globs or /regex/) and a URL path depth limit
+ * - A one-line description of the scope for the agent's prompt
+ */
+
+import { CrawlScope } from './types';
+
+const MAX_PATTERNS = 50;
+const MAX_PATTERN_LENGTH = 500;
+
+// Characters that only make sense in a regex; "/shop/" or "/v1.2/" stay globs
+const REGEX_SYNTAX = /[\\^$|()[\]{}+?]|\.\*/;
+
+/**
+ * Compile a pattern: "/.../flags" is a regular expression when it has flags
+ * or regex syntax (a backslash, anchors, groups, classes, alternation,
+ * quantifiers or ".*"), anything else a glob where "**" matches anything and
+ * "*" anything except "/". Globs that start with "/" match the path and
+ * query; others match the full URL.
+ */
+export function compilePattern(pattern: string): { regex: RegExp; pathOnly: boolean } {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch && (regexMatch[2] || REGEX_SYNTAX.test(regexMatch[1]))) {
+    return { regex: new RegExp(regexMatch[1], statelessFlags(regexMatch[2])), pathOnly: false };
+  }
+
+  const source = pattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return { regex: new RegExp(`^${source}$`, 'i'), pathOnly: pattern.startsWith('/') };
+}
+
+/**
+ * Regex flags without "g" and "y": those make test() resume from the last
+ * match, so the same URL would alternately match and not
+ */
+export function statelessFlags(flags: string): string {
+  return flags.replace(/[gy]/g, '');
+}
+
+/**
+ * Check the shape of a request's scope; returns an error message or null
+ */
+export function validateScope(scope: any): string | null {
+  if (scope === undefined || scope === null) return null;
+  if (typeof scope !== 'object' || Array.isArray(scope)) return 'Scope must be an object';
+
+  for (const key of ['allowedOrigins', 'include', 'exclude'] as const) {
+    const value = scope[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((item: any) => typeof item !== 'string' || item.length > MAX_PATTERN_LENGTH)) {
+      return `scope.${key} must be an array of strings (max ${MAX_PATTERN_LENGTH} characters each)`;
+    }
+    if (value.length > MAX_PATTERNS) {
+      return `scope.${key} allows at most ${MAX_PATTERNS} entries`;
+    }
+  }
+
+  for (const pattern of [...(scope.include || []), ...(scope.exclude || [])]) {
+    try {
+      compilePattern(pattern);
+    } catch (error: any) {
+      return `Invalid scope pattern "${pattern}": ${error.message}`;
+    }
+  }
+
+  if (scope.maxPathDepth !== undefined && (!Number.isInteger(scope.maxPathDepth) || scope.maxPathDepth < 0)) {
+    return 'scope.maxPathDepth must be a non-negative integer';
+  }
+
+  return null;
+}
+
+/**
+ * Decides which URLs a run may visit. Without rules, only the target's origin.
+ */
+export class ScopePolicy {
+  private allowedOrigins: string[];
+  private include: Array<{ pattern: string; regex: RegExp; pathOnly: boolean }>;
+  private exclude: Array<{ pattern: string; regex: RegExp; pathOnly: boolean }>;
+  private maxPathDepth?: number;
+
+  constructor(targetUrl: string, scope: CrawlScope = {}) {
+    const targetOrigin = new URL(targetUrl).origin;
+    this.allowedOrigins = scope.allowedOrigins && scope.allowedOrigins.length > 0
+      ? [...scope.allowedOrigins]
+      : [targetOrigin];
+    // The target itself is always reachable
+    if (!this.allowedOrigins.some(origin => this.matchesOrigin(new URL(targetUrl), origin))) {
+      this.allowedOrigins.unshift(targetOrigin);
+    }
+    this.include = (scope.include || []).map(pattern => ({ pattern, ...compilePattern(pattern) }));
+    this.exclude = (scope.exclude || []).map(pattern => ({ pattern, ...compilePattern(pattern) }));
+    this.maxPathDepth = scope.maxPathDepth;
+  }
+
+  /**
+   * Why a URL is out of scope, or null if it may be visited
+   */
+  public check(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'not a valid absolute URL';
+    }
+
+    if (!this.allowedOrigins.some(origin => this.matchesOrigin(parsed, origin))) {
+      return `origin ${parsed.origin} is not allowed`;
+    }
+
+    const pathAndQuery = parsed.pathname + parsed.search;
+    const matches = (rule: { regex: RegExp; pathOnly: boolean }) => rule.regex.test(rule.pathOnly ? pathAndQuery : parsed.toString());
+
+    const excluded = this.exclude.find(matches);
+    if (excluded) {
+      return `matches exclude pattern ${excluded.pattern}`;
+    }
+    if (this.include.length > 0 && !this.include.some(matches)) {
+      return 'matches no include pattern';
+    }
+
+    if (this.maxPathDepth !== undefined) {
+      const depth = parsed.pathname.split('/').filter(Boolean).length;
+      if (depth > this.maxPathDepth) {
+        return `path depth ${depth} exceeds the limit of ${this.maxPathDepth}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Scope rules in one line, for the agent's prompt and error messages
+   */
+  public describe(): string {
+    const parts = [`origins ${this.allowedOrigins.join(', ')}`];
+    if (this.include.length > 0) parts.push(`include ${this.include.map(rule => rule.pattern).join(', ')}`);
+    if (this.exclude.length > 0) parts.push(`exclude ${this.exclude.map(rule => rule.pattern).join(', ')}`);
+    if (this.maxPathDepth !== undefined) parts.push(`at most ${this.maxPathDepth} path segments`);
+    return parts.join('; ');
+  }
+
+  /**
+   * Allowed origins are exact origins ("https://shop.example.com") or host
+   * globs ("*.example.com")
+   */
+  private matchesOrigin(url: URL, allowed: string): boolean {
+    if (allowed.includes('://')) {
+      try {
+        return new URL(allowed).origin === url.origin;
+      } catch {
+        return false;
+      }
+    }
+    return compilePattern(allowed.toLowerCase()).regex.test(url.host.toLowerCase());
+  }
+}
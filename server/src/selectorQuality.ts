@@ -0,0 +1,265 @@
+/**
+ * Selector quality for generated specs
+ *
+ * This module provides:
+ * - An index of the elements (role, accessible name, heading level) seen in
+ *   the run's browser_snapshot results
+ * - Scoring of every locator in a spec or page object: role, label and
+ *   test-id locators score high; positional, XPath and text-in-CSS low
+ * - Rewriting of brittle selectors to getByRole / getByTestId / getByLabel /
+ *   getByPlaceholder / getByText equivalents, using the snapshot index to
+ *   pick the role of a text match
+ */
+
+import * as ts from 'typescript';
+
+const MAX_INDEXED_ELEMENTS = 5000;
+const BRITTLE_SCORE = 50; // locators below this are reported as brittle
+
+export type LocatorKind =
+  | 'role' | 'label' | 'test-id' | 'placeholder' | 'alt-text' | 'title' | 'text'
+  | 'id' | 'css' | 'text-css' | 'positional' | 'xpath';
+
+const KIND_SCORES: Record<LocatorKind, number> = {
+  role: 100,
+  label: 100,
+  'test-id': 100,
+  placeholder: 90,
+  'alt-text': 90,
+  title: 80,
+  text: 70,
+  id: 70,
+  css: 40,
+  'text-css': 30,
+  positional: 10,
+  xpath: 10
+};
+
+const GETTER_KINDS = new Map<string, LocatorKind>([
+  ['getByRole', 'role'],
+  ['getByLabel', 'label'],
+  ['getByTestId', 'test-id'],
+  ['getByPlaceholder', 'placeholder'],
+  ['getByAltText', 'alt-text'],
+  ['getByTitle', 'title'],
+  ['getByText', 'text']
+]);
+
+// Page methods whose first argument is a selector, and which a locator has too
+const PAGE_ACTIONS = [
+  'click', 'dblclick', 'fill', 'type', 'check', 'uncheck', 'hover', 'focus', 'press', 'selectOption',
+  'setInputFiles', 'tap', 'textContent', 'innerText', 'innerHTML', 'inputValue', 'getAttribute',
+  'isVisible', 'isHidden', 'isChecked', 'isEnabled', 'isDisabled', 'isEditable'
+];
+// Other page methods taking a selector: scored, never rewritten
+const PAGE_SELECTOR_METHODS = ['waitForSelector', '$', '$$', '$eval', '$$eval', 'dispatchEvent'];
+
+const TAG_ROLES = new Map([['button', 'button'], ['a', 'link'], ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(tag => [tag, 'heading'] as [string, string])]);
+
+export interface SnapshotElement {
+  role: string;
+  name: string;
+  level?: number;
+}
+
+export interface LocatorFinding {
+  line: number;
+  selector: string; // the selector string, or the getBy* call
+  kind: LocatorKind;
+  score: number;
+  rewrittenTo?: string;
+  hint?: string; // what to use instead, for brittle locators that were not rewritten
+}
+
+export interface SelectorQualityReport {
+  file: string;
+  score: number; // 0-100, the average over the file's locators (100 without any)
+  locators: number;
+  brittle: number;
+  rewritten: number;
+  findings: LocatorFinding[];
+}
+
+/**
+ * Elements seen in accessibility snapshots ("- button "Add to cart" [ref=e12]")
+ */
+export class SnapshotIndex {
+  private elements = new Map<string, SnapshotElement>();
+
+  public add(snapshot: string): void {
+    for (const line of snapshot.split('\n')) {
+      const match = line.match(/^\s*-\s+([a-z]+)\s+"((?:[^"\\]|\\.)*)"(.*)$/);
+      if (!match || this.elements.size >= MAX_INDEXED_ELEMENTS) continue;
+      const [, role, rawName, rest] = match;
+      const name = rawName.replace(/\\(.)/g, '$1').trim();
+      if (!name) continue;
+      const level = rest.match(/\[level=(\d)\]/)?.[1];
+      const element = { role, name, ...(level && { level: parseInt(level, 10) }) };
+      this.elements.set(`${role}|${name}|${level || ''}`, element);
+    }
+  }
+
+  /**
+   * Elements with this accessible name (case-insensitive), optionally of one role
+   */
+  public findByName(name: string, role?: string): SnapshotElement[] {
+    const wanted = name.trim().toLowerCase();
+    return Array.from(this.elements.values())
+      .filter(element => element.name.toLowerCase() === wanted && (!role || element.role === role));
+  }
+}
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Classify a selector string
+ */
+function classifySelector(selector: string): LocatorKind {
+  const value = selector.trim();
+  if (/^(xpath=|\/\/|\.\.\/|\(\/\/)/.test(value)) return 'xpath';
+  if (/:nth-child|:nth-of-type|:nth-last|:first-child|:last-child|:first-of-type|:last-of-type|>>\s*nth=|:nth\(/.test(value)) return 'positional';
+  if (/^text=|^(['"]).*\1$|:has-text\(|:text\(|:text-is\(|:text-matches\(/.test(value)) return 'text-css';
+  if (/^role=/.test(value)) return 'role';
+  if (/^(\w+)?\[data-(testid|test-id|test|qa|cy)=(['"]?)[^'"\]]+\3\]$/.test(value)) return 'test-id';
+  if (/^(\w+)?\[aria-label=/.test(value)) return 'label';
+  if (/^(\w+)?\[placeholder=/.test(value)) return 'placeholder';
+  if (/^#[\w-]+$/.test(value)) return 'id';
+  return 'css';
+}
+
+/**
+ * A getBy* expression for a selector, or undefined when there is no safe one
+ */
+function rewriteSelector(selector: string, snapshots?: SnapshotIndex): string | undefined {
+  const value = selector.trim();
+  let match: RegExpMatchArray | null;
+
+  // [data-testid] is Playwright's default test id attribute; data-test etc. need config.
+  // Attribute equality and quoted text match whole values, so their getters are exact:
+  // getByLabel('Add') alone would also match "Add to cart"
+  if ((match = value.match(/^\[data-testid=(['"]?)([^'"\]]+)\1\]$/))) return `getByTestId(${quote(match[2])})`;
+  if ((match = value.match(/^(?:\w+)?\[aria-label=(['"]?)([^'"\]]+)\1\]$/))) return `getByLabel(${quote(match[2])}, { exact: true })`;
+  if ((match = value.match(/^(?:\w+)?\[placeholder=(['"]?)([^'"\]]+)\1\]$/))) return `getByPlaceholder(${quote(match[2])}, { exact: true })`;
+  if ((match = value.match(/^role=(\w+)(?:\[name=(['"])(.+)\2\])?$/))) {
+    return match[3] ? `getByRole(${quote(match[1])}, { name: ${quote(match[3])} })` : `getByRole(${quote(match[1])})`;
+  }
+  if ((match = value.match(/^(h[1-6])$/))) return `getByRole('heading', { level: ${match[1][1]} })`;
+
+  // Text matches: the role comes from the tag, or from the snapshot elements with that name.
+  // text="..", "..", and :text-is() match the whole text; text=.., :text() and :has-text() a substring
+  let tag: string | undefined;
+  let quotedText: string;
+  let exact: boolean;
+  if ((match = value.match(/^text=(['"]?)(.+)\1$/))) {
+    [quotedText, exact] = [match[2], match[1] !== ''];
+  } else if ((match = value.match(/^(['"])(.+)\1$/))) {
+    [quotedText, exact] = [match[2], true];
+  } else if ((match = value.match(/^(\w+)?:(has-text|text|text-is)\((['"])(.+)\3\)$/))) {
+    [tag, quotedText, exact] = [match[1], match[4], match[2] === 'text-is'];
+  } else {
+    return undefined;
+  }
+  const text = quotedText.replace(/\\(.)/g, '$1');
+  if (tag && !TAG_ROLES.has(tag)) return undefined; // e.g. div:has-text() - no role to keep the match narrow
+
+  const tagRole = tag ? TAG_ROLES.get(tag) : undefined;
+  const roles = Array.from(new Set((snapshots?.findByName(text, tagRole) || []).map(element => element.role)));
+  const role = roles.length === 1 ? roles[0] : tagRole;
+  if (role) {
+    return `getByRole(${quote(role)}, { name: ${quote(text)}${exact ? ', exact: true' : ''} })`;
+  }
+  return exact ? `getByText(${quote(text)}, { exact: true })` : `getByText(${quote(text)})`;
+}
+
+function hintFor(kind: LocatorKind): string | undefined {
+  switch (kind) {
+    case 'positional': return 'Positional selectors break when the page layout changes; target the element by role and name or a test id';
+    case 'xpath': return 'Replace XPath with getByRole, getByLabel or getByTestId';
+    case 'text-css': return 'Use getByRole(role, { name }) or getByText instead of text in CSS';
+    case 'css': return 'Prefer getByRole, getByLabel or a test id over CSS structure and classes';
+    default: return undefined;
+  }
+}
+
+const stringValue = (node: ts.Node | undefined): string | undefined =>
+  node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+
+/**
+ * Score every locator in the code, and rewrite the brittle ones that have a
+ * safe getBy* equivalent (unless rewrite is false). Returns the new code and
+ * the report.
+ */
+export function improveSelectors(file: string, code: string, snapshots?: SnapshotIndex, rewrite = true): { code: string; report: SelectorQualityReport } {
+  const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.ES2020, true);
+  const findings: LocatorFinding[] = [];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const addSelector = (call: ts.CallExpression, name: ts.MemberName, selector: string, replace: (getter: string) => string | undefined) => {
+    const kind = classifySelector(selector);
+    const getter = rewrite && KIND_SCORES[kind] < KIND_SCORES.role ? rewriteSelector(selector, snapshots) : undefined;
+    const start = name.getStart(sourceFile);
+    const end = call.getEnd();
+    // Calls nested in an already rewritten call keep their selector
+    const overlaps = edits.some(edit => start < edit.end && end > edit.start);
+    const replacement = getter && !overlaps ? replace(getter) : undefined;
+    if (replacement) {
+      edits.push({ start, end, text: replacement });
+      const newKind = GETTER_KINDS.get(getter!.substring(0, getter!.indexOf('(')))!;
+      findings.push({ line: lineOf(call), selector, kind: newKind, score: KIND_SCORES[newKind], rewrittenTo: getter });
+    } else {
+      findings.push({ line: lineOf(call), selector, kind, score: KIND_SCORES[kind], hint: hintFor(kind) });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const { name, expression: receiver } = node.expression;
+      const method = name.text;
+      const selector = stringValue(node.arguments[0]);
+
+      const getterKind = GETTER_KINDS.get(method);
+      if (getterKind) {
+        findings.push({ line: lineOf(node), selector: `${method}(${node.arguments.map(arg => arg.getText(sourceFile)).join(', ')})`, kind: getterKind, score: KIND_SCORES[getterKind] });
+      } else if (method === 'locator' && selector !== undefined) {
+        // x.locator(sel) -> x.getByRole(...); options (has, hasText) can't carry over
+        addSelector(node, name, selector, getter => (node.arguments.length === 1 ? getter : undefined));
+      } else if (selector !== undefined && /(^|\.)page$/i.test(receiver.getText(sourceFile))) {
+        if (PAGE_ACTIONS.includes(method)) {
+          // page.click(sel, options) -> page.getByRole(...).click(options)
+          const rest = node.arguments.slice(1).map(arg => arg.getText(sourceFile)).join(', ');
+          addSelector(node, name, selector, getter => `${getter}.${method}(${rest})`);
+        } else if (PAGE_SELECTOR_METHODS.includes(method)) {
+          addSelector(node, name, selector, () => undefined);
+        }
+      }
+
+      // Chained .nth() / .first() / .last() pick by position
+      if (['nth', 'first', 'last'].includes(method) && ts.isCallExpression(receiver)) {
+        findings.push({ line: lineOf(node), selector: `.${method}(${node.arguments.map(arg => arg.getText(sourceFile)).join(', ')})`, kind: 'positional', score: KIND_SCORES.positional, hint: hintFor('positional') });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  let rewritten = code;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    rewritten = rewritten.substring(0, edit.start) + edit.text + rewritten.substring(edit.end);
+  }
+
+  const score = findings.length > 0
+    ? Math.round(findings.reduce((sum, finding) => sum + finding.score, 0) / findings.length)
+    : 100;
+  return {
+    code: rewritten,
+    report: {
+      file,
+      score,
+      locators: findings.length,
+      brittle: findings.filter(finding => finding.score < BRITTLE_SCORE).length,
+      rewritten: edits.length,
+      findings: findings.sort((a, b) => a.line - b.line)
+    }
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Site profiles: per-application hints for the agent
+ *
+ * This module provides:
+ * - Profiles loaded from SITE_PROFILES_DIR (.json, .js, and .ts when running
+ *   under ts-node), plus the built-in ones (SauceDemo)
+ * - Matching of a run's target URL to a profile by URL pattern
+ * - The prompt fragment a profile contributes: personas, critical flows,
+ *   selector conventions, elements never to click and extra assertions
+ *
+ * A profile can also supply the run's auth profile and scope rules when the
+ * request doesn't, and safety policy rules that apply before the server's.
+ * Its neverClick entries become deny rules too, so they are enforced rather
+ * than only prompted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CrawlScope } from './types';
+import { compilePattern, validateScope } from './scope';
+import { SafetyPolicyConfig, validateSafetyPolicy } from './safetyPolicy';
+
+const SITE_PROFILES_DIR = process.env.SITE_PROFILES_DIR || path.join(__dirname, '..', 'site-profiles');
+
+export interface SiteProfile {
+  name: string;
+  // Host globs ("*.example.com"), URL globs ("https://app.example.com/admin/**") or "/regex/"
+  match: string[];
+  personas?: string[]; // e.g. "standard_user / secret_sauce - a normal shopper"
+  criticalFlows?: string[];
+  selectorConventions?: string;
+  neverClick?: string[];
+  assertions?: string[]; // checks every generated spec should include
+  prompt?: string; // free-form instructions for the system prompt
+  firstMessage?: string; // note added to the first user message
+  authProfile?: string;
+  scope?: CrawlScope;
+  policy?: SafetyPolicyConfig;
+}
+
+const BUILTIN_PROFILES: SiteProfile[] = [
+  {
+    name: 'SauceDemo',
+    match: ['*saucedemo.com'],
+    personas: ['standard_user / secret_sauce - completes the purchase flow', 'locked_out_user / secret_sauce - login is refused'],
+    criticalFlows: ['Purchase: log in, add items to the cart, check out, see the confirmation'],
+    selectorConventions: 'Use data-test selectors.',
+    firstMessage: 'Note: This is SauceDemo - if you discover login functionality, test multiple user personas. If you discover a shopping cart, test the full purchase flow.'
+  }
+];
+
+const asStringList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check a profile's shape; returns an error message or null
+ */
+function validateSiteProfile(profile: any): string | null {
+  if (!profile || typeof profile !== 'object') return 'profile must be an object';
+  if (typeof profile.name !== 'string' || !profile.name) return 'name is required';
+  if (!asStringList(profile.match) || profile.match.length === 0) return 'match must be a non-empty array of URL patterns';
+  for (const key of ['personas', 'criticalFlows', 'neverClick', 'assertions']) {
+    if (profile[key] !== undefined && !asStringList(profile[key])) return `${key} must be an array of strings`;
+  }
+  for (const key of ['selectorConventions', 'prompt', 'firstMessage', 'authProfile']) {
+    if (profile[key] !== undefined && typeof profile[key] !== 'string') return `${key} must be a string`;
+  }
+  for (const pattern of profile.match) {
+    try {
+      compilePattern(pattern);
+    } catch (error: any) {
+      return `invalid match pattern "${pattern}": ${error.message}`;
+    }
+  }
+  const scopeError = validateScope(profile.scope);
+  if (scopeError) return `scope: ${scopeError}`;
+  const policyError = validateSafetyPolicy(profile.policy);
+  if (policyError) return `policy: ${policyError}`;
+  const neverClickError = validateSafetyPolicy(profile.neverClick && neverClickPolicy(profile));
+  return neverClickError ? `neverClick: ${neverClickError}` : null;
+}
+
+/**
+ * The profile's neverClick entries (element text, or "/regex/flags") as deny
+ * rules: for clicks, and for test runs of specs that name the element
+ */
+export function neverClickPolicy(profile: Pick<SiteProfile, 'name' | 'neverClick'>): SafetyPolicyConfig | undefined {
+  if (!profile.neverClick?.length) return undefined;
+  return {
+    rules: profile.neverClick.map(element => ({
+      action: 'deny' as const,
+      tools: ['browser_click', 'runPlaywrightTests'],
+      element,
+      reason: `site profile "${profile.name}" says never click ${element}`
+    }))
+  };
+}
+
+/**
+ * A pattern without "/" matches the host; anything else goes through the
+ * scope pattern syntax (full URL, or path when it starts with "/")
+ */
+function matchesUrl(pattern: string, url: URL): boolean {
+  const { regex, pathOnly } = compilePattern(pattern);
+  if (!pattern.includes('/')) return regex.test(url.host);
+  return regex.test(pathOnly ? url.pathname + url.search : url.toString());
+}
+
+export class SiteProfileRegistry {
+  private profiles: SiteProfile[] = [];
+
+  constructor(profilesDir: string = SITE_PROFILES_DIR) {
+    this.profiles = [...this.loadDirectory(profilesDir), ...BUILTIN_PROFILES];
+  }
+
+  /**
+   * Load every profile file in the directory; invalid ones are skipped
+   */
+  private loadDirectory(profilesDir: string): SiteProfile[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(profilesDir).sort();
+    } catch {
+      return [];
+    }
+
+    // .ts profiles need ts-node (npm run dev); the compiled server reads .json and .js
+    const loadsTypeScript = !!require.extensions['.ts'];
+    const profiles: SiteProfile[] = [];
+    for (const file of files) {
+      const ext = path.extname(file);
+      if (!['.json', '.js'].includes(ext) && !(ext === '.ts' && loadsTypeScript && !file.endsWith('.d.ts'))) continue;
+
+      try {
+        const fullPath = path.join(profilesDir, file);
+        const loaded = ext === '.json'
+          ? JSON.parse(fs.readFileSync(fullPath, 'utf-8'))
+          : (mod => mod.default ?? mod)(require(fullPath));
+
+        for (const profile of Array.isArray(loaded) ? loaded : [loaded]) {
+          const error = validateSiteProfile(profile);
+          if (error) {
+            console.error(`Skipping site profile in ${file}: ${error}`);
+            continue;
+          }
+          profiles.push(profile);
+        }
+      } catch (error: any) {
+        console.error(`Failed to load site profile ${file}: ${error.message}`);
+      }
+    }
+    return profiles;
+  }
+
+  /**
+   * The first profile matching the URL (directory profiles before built-ins)
+   */
+  public find(url: string): SiteProfile | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return undefined;
+    }
+    return this.profiles.find(profile => profile.match.some(pattern => matchesUrl(pattern, parsed)));
+  }
+
+  public list(): SiteProfile[] {
+    return [...this.profiles];
+  }
+}
+
+/**
+ * The system prompt section for a profile
+ */
+export function buildSiteProfilePrompt(profile: SiteProfile): string {
+  const lines = [`SITE PROFILE (${profile.name}):`];
+  if (profile.personas?.length) lines.push(`- Personas to test: ${profile.personas.join('; ')}`);
+  if (profile.criticalFlows?.length) lines.push(`- Critical flows: ${profile.criticalFlows.join('; ')}`);
+  if (profile.selectorConventions) lines.push(`- Selectors: ${profile.selectorConventions}`);
+  if (profile.neverClick?.length) lines.push(`- NEVER click or submit: ${profile.neverClick.join('; ')}`);
+  if (profile.assertions?.length) lines.push(`- Every spec must also assert: ${profile.assertions.join('; ')}`);
+  if (profile.prompt) lines.push(profile.prompt);
+  return lines.join('\n');
+}
+
+// Singleton instance
+let siteProfileRegistryInstance: SiteProfileRegistry | null = null;
+
+/**
+ * Get the site profile registry (profiles are read once, at first use)
+ */
+export function getSiteProfileRegistry(): SiteProfileRegistry {
+  if (!siteProfileRegistryInstance) {
+    siteProfileRegistryInstance = new SiteProfileRegistry();
+  }
+  return siteProfileRegistryInstance;
+}
@@ -0,0 +1,179 @@
+/**
+ * Static checks for generated specs
+ *
+ * This module provides:
+ * - Type-checking of a spec against @playwright/test with the TypeScript
+ *   compiler API, before it is written (JavaScript specs get a syntax check)
+ * - Spec rules: imports from @playwright/test, at least one expect, no
+ *   waitForTimeout, no test.only (support files such as page objects only
+ *   get the waitForTimeout rule)
+ * - Diagnostics with line and column, formatted for the model to act on
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+
+const MAX_REPORTED_DIAGNOSTICS = 20;
+
+export interface SpecDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  code: string; // "TS2304", or the rule name
+}
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'], // page.evaluate callbacks run in the browser
+  types: ['node'],
+  allowJs: true, // syntax only; JavaScript specs aren't type-checked
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  noEmit: true,
+  // Generated code is judged on whether it runs, not on strictness
+  strict: false,
+  noImplicitAny: false
+};
+
+// Library and node_modules declarations, parsed once and shared by every check
+const sourceFileCache = new Map<string, ts.SourceFile>();
+let previousProgram: ts.Program | undefined;
+
+/**
+ * A compiler host that serves the spec from memory and everything else from disk
+ */
+function createHost(fileName: string, code: string): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+
+  host.fileExists = name => path.resolve(name) === fileName || fileExists(name);
+  host.readFile = name => (path.resolve(name) === fileName ? code : readFile(name));
+  host.getSourceFile = (name, languageVersion) => {
+    if (path.resolve(name) === fileName) {
+      return ts.createSourceFile(name, code, languageVersion, true);
+    }
+    const cached = sourceFileCache.get(name);
+    if (cached) return cached;
+
+    const text = readFile(name);
+    if (text === undefined) return undefined;
+    const sourceFile = ts.createSourceFile(name, text, languageVersion, true);
+    // Other workspace files (page objects, helpers) may change between saves
+    if (name.includes('node_modules')) {
+      sourceFileCache.set(name, sourceFile);
+    }
+    return sourceFile;
+  };
+  return host;
+}
+
+function toDiagnostic(sourceFile: ts.SourceFile, start: number, message: string, code: string): SpecDiagnostic {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+  return { line: line + 1, column: character + 1, message, code };
+}
+
+/**
+ * Compiler errors for the spec itself (not for the files it imports)
+ */
+function compilerDiagnostics(fileName: string, code: string): SpecDiagnostic[] {
+  const program = ts.createProgram({
+    rootNames: [fileName],
+    options: COMPILER_OPTIONS,
+    host: createHost(fileName, code),
+    oldProgram: previousProgram
+  });
+  previousProgram = program;
+
+  const sourceFile = program.getSourceFile(fileName)!;
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...(/\.ts$/.test(fileName) ? program.getSemanticDiagnostics(sourceFile) : [])
+  ];
+
+  return diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => toDiagnostic(
+      sourceFile,
+      diagnostic.start ?? 0,
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+      `TS${diagnostic.code}`
+    ));
+}
+
+/**
+ * The spec rules, checked on the syntax tree
+ */
+function ruleDiagnostics(fileName: string, code: string): SpecDiagnostic[] {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.ES2020, true);
+  const diagnostics: SpecDiagnostic[] = [];
+  let importsPlaywright = false;
+  let hasExpect = false;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) &&
+        node.moduleSpecifier.text === '@playwright/test') {
+      importsPlaywright = true;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      if (ts.isIdentifier(callee) && callee.text === 'require' &&
+          node.arguments[0] && ts.isStringLiteral(node.arguments[0]) && node.arguments[0].text === '@playwright/test') {
+        importsPlaywright = true;
+      }
+      // expect(...), expect.soft(...), expect.poll(...)
+      const root = ts.isPropertyAccessExpression(callee) ? callee.expression : callee;
+      if (ts.isIdentifier(root) && root.text === 'expect') {
+        hasExpect = true;
+      }
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const name = node.name.text;
+      if (name === 'waitForTimeout') {
+        diagnostics.push(toDiagnostic(sourceFile, node.name.getStart(), 'Do not use waitForTimeout; wait with a web-first assertion (await expect(locator).toBeVisible()) or locator.waitFor() instead', 'no-wait-for-timeout'));
+      }
+      if (name === 'only' && /^(test|describe|it)\b/.test(node.expression.getText(sourceFile))) {
+        diagnostics.push(toDiagnostic(sourceFile, node.name.getStart(), `Remove .only from ${node.getText(sourceFile)}; it skips every other test`, 'no-only'));
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!/\.(spec|test)\.[jt]s$/.test(fileName)) return diagnostics;
+  if (!importsPlaywright) {
+    diagnostics.unshift(toDiagnostic(sourceFile, 0, "Import test and expect from '@playwright/test'", 'playwright-import'));
+  }
+  if (!hasExpect) {
+    diagnostics.push(toDiagnostic(sourceFile, 0, 'The spec has no expect() assertion; every test should check an outcome', 'requires-expect'));
+  }
+  return diagnostics;
+}
+
+/**
+ * Check a spec before it is saved to fileName (an absolute path, so its
+ * imports resolve as they will on disk). Returns no diagnostics when it passes.
+ */
+export function checkSpec(fileName: string, code: string): SpecDiagnostic[] {
+  const absolutePath = path.resolve(fileName);
+  return [...ruleDiagnostics(absolutePath, code), ...compilerDiagnostics(absolutePath, code)]
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Diagnostics as tool error text: one "line:column [code] message" per line
+ */
+export function formatDiagnostics(displayName: string, diagnostics: SpecDiagnostic[]): string {
+  const shown = diagnostics.slice(0, MAX_REPORTED_DIAGNOSTICS);
+  const lines = shown.map(diagnostic => `${displayName}:${diagnostic.line}:${diagnostic.column} [${diagnostic.code}] ${diagnostic.message}`);
+  if (diagnostics.length > shown.length) {
+    lines.push(`... and ${diagnostics.length - shown.length} more`);
+  }
+  return `${displayName} was not saved - ${diagnostics.length} problem(s) to fix:\n${lines.join('\n')}`;
+}
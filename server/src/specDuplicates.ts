@@ -0,0 +1,514 @@
+/**
+ * Near-duplicate spec detection
+ *
+ * This module provides:
+ * - Extraction of each test in a spec as a normalized step sequence: its
+ *   navigations, actions and assertions with their targets, with values,
+ *   comments, formatting and selector syntax left out; beforeEach hooks and
+ *   helper functions defined in the file are inlined
+ * - Similarity between two tests (the share of steps they have in common, in
+ *   order) and the existing tests a new spec duplicates
+ * - Clustering of a suite into groups of duplicate tests, with a proposed
+ *   merged file per group: the most complete test, plus the assertions only
+ *   the others make
+ * - Reading a folder's specs for either check
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export const DUPLICATE_SIMILARITY = parseFloat(process.env.DUPLICATE_SIMILARITY || '0.85');
+const MIN_STEPS = 2; // shorter tests are too generic to compare
+const MAX_HELPER_DEPTH = 3;
+
+export interface SpecSource {
+  path: string;
+  content: string;
+}
+
+export interface TestSteps {
+  file: string;
+  title: string; // with the describe titles, "Suite › test"
+  steps: string[]; // e.g. "fill username", "click login-button", "expect text error"
+}
+
+export interface DuplicateMatch {
+  test: string; // title of the new test
+  duplicateOf: { file: string; title: string };
+  similarity: number; // 0-1
+}
+
+export interface DuplicateGroup {
+  tests: Array<{ file: string; title: string; steps: number }>;
+  similarity: number; // lowest similarity between the kept test and the others
+  keep: { file: string; title: string };
+  merged: { fileName: string; content: string };
+}
+
+// Locator methods whose first argument identifies the element
+const LOCATOR_METHODS = ['locator', 'getByRole', 'getByLabel', 'getByTestId', 'getByPlaceholder', 'getByAltText', 'getByTitle', 'getByText', '$', 'frameLocator'];
+// Methods that narrow a locator without naming a new element
+const REFINE_METHODS = ['first', 'last', 'nth', 'filter', 'and', 'or'];
+const ACTION_METHODS = ['click', 'dblclick', 'fill', 'type', 'pressSequentially', 'check', 'uncheck', 'setChecked', 'hover', 'focus', 'press', 'selectOption', 'setInputFiles', 'tap', 'dragTo', 'clear'];
+const READ_METHODS = ['innerText', 'textContent', 'inputValue', 'getAttribute', 'innerHTML', 'count', 'isVisible', 'isHidden', 'isChecked', 'isEnabled', 'isDisabled', 'allTextContents', 'allInnerTexts'];
+const NAVIGATION_METHODS = ['goto', 'goBack', 'goForward', 'reload'];
+// Matchers that all compare text, so toHaveText and innerText + toContain match
+const TEXT_MATCHERS = ['toHaveText', 'toContainText', 'toContain', 'toBe', 'toEqual', 'toStrictEqual', 'toMatch', 'toHaveValue'];
+
+interface Step {
+  key: string;
+  statement?: ts.Statement; // the test body statement it comes from
+}
+
+interface ExtractedTest {
+  file: string;
+  title: string;
+  steps: Step[];
+  call: ts.CallExpression; // test(...)
+  hooks: ts.Statement[]; // beforeEach statements of the enclosing describes
+  sourceFile: ts.SourceFile;
+}
+
+/**
+ * A short key for what a selector or locator argument points at:
+ * '[data-test="login-button"]', '#login-button' and "Login button" all give
+ * "login-button"
+ */
+function normalizeTarget(text: string): string {
+  let value = text.trim();
+  const attribute = value.match(/\[(?:data-[\w-]+|id|name|aria-label|placeholder)\s*=\s*(['"]?)([^'"\]]+)\1\]\s*$/);
+  if (attribute) {
+    value = attribute[2];
+  } else {
+    value = value.replace(/^(text|css|role|id)=/, '').replace(/^\w*[#.]/, '').replace(/^(['"])(.*)\1$/, '$2');
+  }
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'element';
+}
+
+const unwrap = (node: ts.Expression): ts.Expression =>
+  ts.isAwaitExpression(node) || ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node)
+    ? unwrap(node.expression)
+    : node;
+
+const stringValue = (node: ts.Node | undefined): string | undefined =>
+  node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+
+const calleeName = (call: ts.CallExpression): string | undefined =>
+  ts.isPropertyAccessExpression(call.expression) ? call.expression.name.text
+    : ts.isIdentifier(call.expression) ? call.expression.text
+    : undefined;
+
+/**
+ * Whether a call is test(...) / test.only(...) / it(...), as opposed to
+ * test.describe, test.step, hooks and so on
+ */
+function isTestCall(call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  const isTestIdentifier = (node: ts.Expression) => ts.isIdentifier(node) && (node.text === 'test' || node.text === 'it');
+  const named = isTestIdentifier(callee) ||
+    (ts.isPropertyAccessExpression(callee) && isTestIdentifier(callee.expression) && ['only', 'skip', 'fixme', 'fail', 'slow'].includes(callee.name.text));
+  return named && stringValue(call.arguments[0]) !== undefined && call.arguments.length >= 2;
+}
+
+function isDescribeCall(call: ts.CallExpression): boolean {
+  const text = call.expression.getText();
+  return /^(test\.describe|describe)(\.(only|skip|serial|parallel|fixme))*$/.test(text);
+}
+
+function isBeforeEachCall(call: ts.CallExpression): boolean {
+  return /^(test\.beforeEach|beforeEach)$/.test(call.expression.getText());
+}
+
+const lastFunction = (call: ts.CallExpression): ts.ArrowFunction | ts.FunctionExpression | undefined => {
+  const fn = call.arguments[call.arguments.length - 1];
+  return fn && (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) ? fn : undefined;
+};
+
+const bodyStatements = (fn: ts.FunctionLikeDeclaration | undefined): ts.Statement[] =>
+  fn?.body && ts.isBlock(fn.body) ? Array.from(fn.body.statements) : [];
+
+/**
+ * Walks test bodies into step keys, resolving locator variables and inlining
+ * the file's helper functions
+ */
+class StepExtractor {
+  private helpers = new Map<string, ts.FunctionLikeDeclaration>();
+
+  constructor(sourceFile: ts.SourceFile) {
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        this.helpers.set(statement.name.text, statement);
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const init = declaration.initializer;
+          if (ts.isIdentifier(declaration.name) && init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+            this.helpers.set(declaration.name.text, init);
+          }
+        }
+      }
+    }
+  }
+
+  public extract(statements: ts.Statement[]): Step[] {
+    const steps: Step[] = [];
+    const variables = new Map<string, string>();
+    for (const statement of statements) {
+      this.visit(statement, variables, 0, key => steps.push({ key, statement }));
+    }
+    return steps;
+  }
+
+  /**
+   * The target key of a locator expression, or undefined when it isn't one
+   */
+  private targetOf(node: ts.Expression, variables: Map<string, string>): string | undefined {
+    const expression = unwrap(node);
+    if (ts.isIdentifier(expression)) {
+      return expression.text === 'page' ? 'page' : variables.get(expression.text);
+    }
+    if (!ts.isCallExpression(expression) || !ts.isPropertyAccessExpression(expression.expression)) return undefined;
+
+    const method = expression.expression.name.text;
+    const receiver = expression.expression.expression;
+    if (LOCATOR_METHODS.includes(method)) {
+      const first = stringValue(expression.arguments[0]);
+      if (method === 'getByRole') {
+        const options = expression.arguments[1];
+        const name = options && ts.isObjectLiteralExpression(options)
+          ? options.properties.find(property => property.name?.getText() === 'name')
+          : undefined;
+        const nameValue = name && ts.isPropertyAssignment(name) ? stringValue(name.initializer) : undefined;
+        return normalizeTarget(nameValue || first || 'element');
+      }
+      return first !== undefined ? normalizeTarget(first) : 'element';
+    }
+    if (REFINE_METHODS.includes(method) || READ_METHODS.includes(method)) {
+      return this.targetOf(receiver, variables);
+    }
+    return undefined;
+  }
+
+  private visit(node: ts.Node, variables: Map<string, string>, depth: number, push: (key: string) => void): void {
+    // const x = page.locator(...) / await page.locator(...).innerText()
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const target = this.targetOf(node.initializer, variables);
+      if (target && target !== 'page') {
+        variables.set(node.name.text, target);
+        return;
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      const method = calleeName(node);
+
+      // expect(x).toHaveText(...), expect(x).not.toBeVisible(), expect.soft(x)...
+      const assertion = this.assertionKey(node, variables);
+      if (assertion) {
+        push(assertion);
+        return;
+      }
+
+      if (method && ts.isPropertyAccessExpression(node.expression)) {
+        const receiver = node.expression.expression;
+        if (NAVIGATION_METHODS.includes(method) && unwrap(receiver).getText() === 'page') {
+          push(method === 'goto' ? 'goto' : method.toLowerCase());
+          return;
+        }
+        if (ACTION_METHODS.includes(method)) {
+          // page.click(selector, ...) or locator.click(...)
+          const selector = stringValue(node.arguments[0]);
+          const target = unwrap(receiver).getText() === 'page' && selector !== undefined
+            ? normalizeTarget(selector)
+            : this.targetOf(receiver, variables);
+          if (target) {
+            push(`${method.toLowerCase()} ${target}`);
+            return;
+          }
+        }
+      }
+
+      // Helpers defined in the file: login(page) contributes its steps
+      if (method && ts.isIdentifier(node.expression) && depth < MAX_HELPER_DEPTH) {
+        const helper = this.helpers.get(method);
+        if (helper) {
+          for (const statement of bodyStatements(helper)) {
+            this.visit(statement, new Map(), depth + 1, push);
+          }
+          if (helper.body && !ts.isBlock(helper.body)) this.visit(helper.body, new Map(), depth + 1, push);
+          return;
+        }
+      }
+    }
+
+    ts.forEachChild(node, child => this.visit(child, variables, depth, push));
+  }
+
+  private assertionKey(call: ts.CallExpression, variables: Map<string, string>): string | undefined {
+    if (!ts.isPropertyAccessExpression(call.expression)) return undefined;
+    const matcher = call.expression.name.text;
+    let subject: ts.Expression = call.expression.expression;
+    let negated = false;
+    if (ts.isPropertyAccessExpression(subject) && subject.name.text === 'not') {
+      negated = true;
+      subject = subject.expression;
+    }
+    if (!ts.isCallExpression(subject)) return undefined;
+    const expectCallee = subject.expression.getText();
+    if (!/^expect(\.soft)?$/.test(expectCallee) || !subject.arguments[0]) return undefined;
+
+    const target = this.targetOf(subject.arguments[0], variables) || 'value';
+    const kind = TEXT_MATCHERS.includes(matcher) ? 'text' : matcher.replace(/^to(Have|Be)?/, '').toLowerCase();
+    return `expect ${negated ? 'not ' : ''}${kind} ${target}`;
+  }
+}
+
+/**
+ * The tests of a spec with their steps
+ */
+function extractTests(file: string, content: string): ExtractedTest[] {
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.ES2020, true);
+  const extractor = new StepExtractor(sourceFile);
+  const tests: ExtractedTest[] = [];
+
+  const walk = (statements: readonly ts.Statement[], titles: string[], hooks: ts.Statement[]) => {
+    // Hooks apply to every test of their describe, wherever they are in it
+    const scopeHooks = [...hooks];
+    for (const statement of statements) {
+      const call = ts.isExpressionStatement(statement) ? statement.expression : undefined;
+      if (call && ts.isCallExpression(call) && isBeforeEachCall(call)) scopeHooks.push(statement);
+    }
+
+    for (const statement of statements) {
+      if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) continue;
+      const call = statement.expression;
+      if (isDescribeCall(call)) {
+        const title = stringValue(call.arguments[0]);
+        walk(bodyStatements(lastFunction(call)), title ? [...titles, title] : titles, scopeHooks);
+      } else if (isTestCall(call)) {
+        const hookSteps = scopeHooks.flatMap(hook =>
+          extractor.extract(bodyStatements(lastFunction((hook as ts.ExpressionStatement).expression as ts.CallExpression))).map(step => ({ key: step.key })));
+        tests.push({
+          file,
+          title: [...titles, stringValue(call.arguments[0])!].join(' › '),
+          steps: [...hookSteps, ...extractor.extract(bodyStatements(lastFunction(call)))],
+          call,
+          hooks: scopeHooks,
+          sourceFile
+        });
+      }
+    }
+  };
+  walk(sourceFile.statements, [], []);
+  return tests;
+}
+
+/**
+ * The steps of each test in a spec
+ */
+export function extractTestSteps(file: string, content: string): TestSteps[] {
+  return extractTests(file, content).map(({ file: testFile, title, steps }) => ({ file: testFile, title, steps: steps.map(step => step.key) }));
+}
+
+/**
+ * Longest common subsequence as index pairs
+ */
+function alignSteps(a: string[], b: string[]): Array<[number, number]> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Share of two step sequences in common, in order (1 for identical steps)
+ */
+export function stepSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  return (2 * alignSteps(a, b).length) / (a.length + b.length);
+}
+
+/**
+ * Tests of the new spec that duplicate a test in the existing specs
+ */
+export function findDuplicateTests(file: string, content: string, existing: SpecSource[], threshold: number): DuplicateMatch[] {
+  const candidates = existing.flatMap(spec => extractTestSteps(spec.path, spec.content))
+    .filter(test => test.steps.length >= MIN_STEPS);
+  const matches: DuplicateMatch[] = [];
+
+  for (const test of extractTestSteps(file, content)) {
+    if (test.steps.length < MIN_STEPS) continue;
+    let best: DuplicateMatch | undefined;
+    for (const candidate of candidates) {
+      const similarity = stepSimilarity(test.steps, candidate.steps);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { test: test.title, duplicateOf: { file: candidate.file, title: candidate.title }, similarity: Math.round(similarity * 100) / 100 };
+      }
+    }
+    if (best) matches.push(best);
+  }
+  return matches;
+}
+
+/**
+ * Source text of a node, moved from its own indentation to indent. With
+ * comments, the comments and a blank line before it are kept.
+ */
+function reindent(node: ts.Node, indent = '', withComments = false): string {
+  const sourceFile = node.getSourceFile();
+  const start = node.getStart(sourceFile);
+  const column = sourceFile.getLineAndCharacterOfPosition(start).character;
+  const fullText = node.getFullText(sourceFile);
+  const text = withComments
+    ? (/^[ \t]*\n[ \t]*\n/.test(fullText) ? '\n' : '') + fullText.replace(/^\s*\n/, '')
+    : ' '.repeat(column) + node.getText(sourceFile);
+  return text.split('\n')
+    .map(line => (line.trim() ? indent + line.replace(new RegExp(`^ {0,${column}}`), '') : ''))
+    .join('\n');
+}
+
+/**
+ * Whether an assertion statement only uses page and expect, so it can be
+ * moved into another test
+ */
+function isPortable(statement: ts.Statement): boolean {
+  let portable = true;
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && !['page', 'expect'].includes(node.text)) {
+      const parent = node.parent;
+      const isMemberName = (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node);
+      if (!isMemberName) portable = false;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(statement);
+  return portable;
+}
+
+/**
+ * The kept test, with the portable assertions only the other tests make
+ * inserted after the step they follow
+ */
+function buildMergedFile(keep: ExtractedTest, others: ExtractedTest[]): string {
+  const { sourceFile, call } = keep;
+  const keepKeys = keep.steps.map(step => step.key);
+  const insertions = new Map<ts.Statement | undefined, ts.Statement[]>(); // after which statement of the kept test
+  const added = new Set<string>(keepKeys);
+
+  for (const other of others) {
+    const pairs = alignSteps(keepKeys, other.steps.map(step => step.key));
+    other.steps.forEach((step, index) => {
+      const statement = step.statement;
+      if (!step.key.startsWith('expect ') || added.has(step.key) || !statement || !isPortable(statement)) return;
+      // The kept step matched to the nearest preceding step of the other test
+      const previous = pairs.filter(([, otherIndex]) => otherIndex < index).pop();
+      const anchor = previous ? keep.steps[previous[0]].statement : undefined;
+      insertions.set(anchor, [...(insertions.get(anchor) || []), statement]);
+      added.add(step.key);
+    });
+  }
+
+  const fn = lastFunction(call)!;
+  const statements = bodyStatements(fn);
+  const indent = statements.length > 0 ? ' '.repeat(sourceFile.getLineAndCharacterOfPosition(statements[0].getStart(sourceFile)).character) : '  ';
+  const baseIndent = sourceFile.getLineAndCharacterOfPosition(call.getStart(sourceFile)).character;
+  const bodyIndent = ' '.repeat(Math.max(indent.length - baseIndent, 2));
+  const bodyLines = [
+    ...(insertions.get(undefined) || []).map(statement => reindent(statement, bodyIndent)),
+    ...statements.flatMap(statement => [
+      reindent(statement, bodyIndent, true),
+      ...(insertions.get(statement) || []).map(inserted => reindent(inserted, bodyIndent))
+    ])
+  ];
+
+  const testHeader = sourceFile.text.substring(call.getStart(sourceFile), fn.body.getStart(sourceFile) + 1);
+  const testText = `${testHeader}\n${bodyLines.join('\n')}\n});`;
+
+  // Imports, constants and helpers of the kept test's file, then its hooks
+  const topLevel = sourceFile.statements.filter(statement =>
+    ts.isImportDeclaration(statement) || ts.isFunctionDeclaration(statement) || ts.isVariableStatement(statement) ||
+    ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement));
+  const sources = [keep, ...others].map(test => `${test.file} › ${test.title}`);
+  return [
+    ...topLevel.filter(ts.isImportDeclaration).map(statement => statement.getText(sourceFile)),
+    '',
+    `// Merged from:\n${sources.map(source => `// - ${source}`).join('\n')}`,
+    ...topLevel.filter(statement => !ts.isImportDeclaration(statement)).map(statement => `\n${statement.getText(sourceFile)}`),
+    ...keep.hooks.map(hook => `\n${reindent(hook)}`),
+    '',
+    testText,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Group the suite's tests into clusters of duplicates (each test at least
+ * threshold-similar to another in its group), with a merged file per group
+ */
+export function findDuplicateGroups(specs: SpecSource[], threshold: number): DuplicateGroup[] {
+  const tests = specs.flatMap(spec => extractTests(spec.path, spec.content))
+    .filter(test => test.steps.length >= MIN_STEPS);
+  const keys = tests.map(test => test.steps.map(step => step.key));
+
+  // Union-find over the similar pairs
+  const parent = tests.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  for (let i = 0; i < tests.length; i++) {
+    for (let j = i + 1; j < tests.length; j++) {
+      if (stepSimilarity(keys[i], keys[j]) >= threshold) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  tests.forEach((_, index) => clusters.set(find(index), [...(clusters.get(find(index)) || []), index]));
+
+  return Array.from(clusters.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      // Keep the most complete test: most steps, then most assertions
+      const assertions = (index: number) => keys[index].filter(key => key.startsWith('expect ')).length;
+      const keepIndex = [...members].sort((a, b) => keys[b].length - keys[a].length || assertions(b) - assertions(a))[0];
+      const keep = tests[keepIndex];
+      const others = members.filter(index => index !== keepIndex);
+      const similarity = Math.min(...others.map(index => stepSimilarity(keys[keepIndex], keys[index])));
+      return {
+        tests: members.map(index => ({ file: tests[index].file, title: tests[index].title, steps: keys[index].length })),
+        similarity: Math.round(similarity * 100) / 100,
+        keep: { file: keep.file, title: keep.title },
+        merged: {
+          fileName: keep.file.replace(/\.(spec|test)\.([jt]s)$/, '.merged.$1.$2'),
+          content: buildMergedFile(keep, others.map(index => tests[index]))
+        }
+      };
+    });
+}
+
+/**
+ * The .spec/.test files under dir (paths relative to it), skipping the
+ * given subdirectories and the file at exclude
+ */
+export function readSpecSources(dir: string, skipDirs: string[] = [], exclude?: string): SpecSource[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { recursive: true })
+    .filter((entry): entry is string => typeof entry === 'string' && /\.(spec|test)\.[jt]s$/.test(entry))
+    .map(entry => path.join(dir, entry))
+    .filter(file => file !== exclude && !skipDirs.some(skip => file.startsWith(skip + path.sep)))
+    .map(file => ({
+      path: path.relative(dir, file).split(path.sep).join('/'),
+      content: fs.readFileSync(file, 'utf-8')
+    }));
+}
@@ -0,0 +1,149 @@
+/**
+ * Playwright JSON report parsing
+ *
+ * This module provides:
+ * - Conversion of Playwright's JSON reporter output into per-test results
+ * - A compact text rendering of those results for the LLM
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JSONReport, JSONReportSuite, JSONReportTest } from '@playwright/test/reporter';
+import { TestCaseResult, TestCaseStatus, TestRunReport } from './types';
+
+const MAX_ERROR_MESSAGE_LENGTH = 600;
+const MAX_FAILURES_FOR_LLM = 10;
+
+/**
+ * Remove terminal color codes from Playwright error output
+ */
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+/**
+ * Status of a test across its retries
+ */
+function testStatus(test: JSONReportTest): TestCaseStatus {
+  if (test.status === 'flaky') return 'flaky';
+  if (test.status === 'skipped') return 'skipped';
+
+  const lastResult = test.results[test.results.length - 1];
+  return lastResult?.status || (test.status === 'expected' ? 'passed' : 'failed');
+}
+
+/**
+ * Flatten a suite tree into test results, joining describe titles
+ * (top-level suites are files, so their titles are left out). Spec files are
+ * reported relative to the config's rootDir; results use testsDir.
+ */
+function collectTests(suite: JSONReportSuite, titles: string[], rootDir: string, testsDir: string, into: TestCaseResult[]): void {
+  for (const spec of suite.specs) {
+    for (const test of spec.tests) {
+      const lastResult = test.results[test.results.length - 1];
+      const error = lastResult?.error;
+
+      into.push({
+        title: [...titles, spec.title].join(' › '),
+        file: path.relative(testsDir, path.resolve(rootDir, spec.file)) || spec.file,
+        line: spec.line,
+        project: test.projectName,
+        status: testStatus(test),
+        durationMs: test.results.reduce((total, result) => total + result.duration, 0),
+        retries: Math.max(0, test.results.length - 1),
+        error: error?.message ? {
+          message: stripAnsi(error.message),
+          stack: error.stack ? stripAnsi(error.stack) : undefined,
+          location: error.location ? {
+            file: path.relative(testsDir, error.location.file) || error.location.file,
+            line: error.location.line,
+            column: error.location.column
+          } : undefined
+        } : undefined,
+        attachments: (lastResult?.attachments || [])
+          .filter(attachment => attachment.path)
+          .map(attachment => ({
+            name: attachment.name,
+            contentType: attachment.contentType,
+            path: attachment.path!
+          }))
+      });
+    }
+  }
+
+  for (const child of suite.suites || []) {
+    collectTests(child, [...titles, child.title], rootDir, testsDir, into);
+  }
+}
+
+/**
+ * Convert a Playwright JSON report into the agent's test result model
+ */
+export function parseJsonReport(report: JSONReport, testsDir: string): TestRunReport {
+  const tests: TestCaseResult[] = [];
+  const rootDir = report.config?.rootDir || testsDir; // a run's own config has its folder as rootDir
+  for (const suite of report.suites) {
+    collectTests(suite, [], rootDir, testsDir, tests);
+  }
+
+  const count = (status: TestCaseStatus) => tests.filter(test => test.status === status).length;
+
+  return {
+    summary: {
+      total: tests.length,
+      passed: count('passed'),
+      failed: tests.length - count('passed') - count('flaky') - count('skipped'),
+      flaky: count('flaky'),
+      skipped: count('skipped'),
+      durationMs: Math.round(report.stats.duration)
+    },
+    tests,
+    errors: report.errors.map(error => stripAnsi(error.message || String(error.value || 'Unknown error')))
+  };
+}
+
+/**
+ * Read and parse a JSON report file; null if it is missing or unreadable
+ * (e.g. Playwright failed before any reporter ran)
+ */
+export function readJsonReport(reportPath: string, testsDir: string): TestRunReport | null {
+  try {
+    const report: JSONReport = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+    return parseJsonReport(report, testsDir);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a test run compactly for the LLM: counts, then each failing test
+ * with its error and location
+ */
+export function formatReportForLLM(report: TestRunReport): string {
+  const { summary } = report;
+  const lines = [
+    `Tests: ${summary.passed} passed, ${summary.failed} failed, ${summary.flaky} flaky, ` +
+      `${summary.skipped} skipped (${(summary.durationMs / 1000).toFixed(1)}s)`
+  ];
+
+  for (const error of report.errors) {
+    lines.push(`ERROR: ${error.substring(0, MAX_ERROR_MESSAGE_LENGTH)}`);
+  }
+
+  const failures = report.tests.filter(test => test.status !== 'passed' && test.status !== 'skipped');
+  for (const test of failures.slice(0, MAX_FAILURES_FOR_LLM)) {
+    lines.push(`${test.status.toUpperCase()}: ${test.file}:${test.line} ${test.title} [${test.project}]`);
+    if (test.error) {
+      lines.push(`  ${test.error.message.substring(0, MAX_ERROR_MESSAGE_LENGTH).replace(/\n/g, '\n  ')}`);
+      if (test.error.location) {
+        lines.push(`  at ${test.error.location.file}:${test.error.location.line}:${test.error.location.column}`);
+      }
+    }
+  }
+
+  if (failures.length > MAX_FAILURES_FOR_LLM) {
+    lines.push(`... and ${failures.length - MAX_FAILURES_FOR_LLM} more failing tests`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,13 +1,26 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { CustomTool, ToolExecutionResult, TestExecutionResult } from './types';
+import { CustomTool, ToolExecutionContext, ToolExecutionResult, TestExecutionResult } from './types';
+import { readJsonReport } from './testReport';
+import { RunWorkspace, WORKSPACES_DIR } from './workspace';
+import { getPluginTools } from './plugins';
+import { ApiSpec, computeApiCoverage } from './openapi';
+import { checkSpec, formatDiagnostics } from './specCheck';
+import { improveSelectors } from './selectorQuality';
+import { getRevisionStore } from './revisions';
+import { RUN_CONFIG_FILE, relativizeUrls } from './runConfig';
+import { DUPLICATE_SIMILARITY, DuplicateMatch, findDuplicateTests, readSpecSources } from './specDuplicates';
 
 const execAsync = promisify(exec);
-const TESTS_DIR = path.join(__dirname, '..', 'tests');
+export const SERVER_DIR = path.join(__dirname, '..');
+export const TESTS_DIR = path.join(SERVER_DIR, 'tests');
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB max file size
 const PLAYWRIGHT_TIMEOUT = 300000; // 5 minutes for test execution
+// What saveTestFile does with a spec that duplicates an existing test
+const DUPLICATE_SPECS = (process.env.DUPLICATE_SPECS || 'warn') as 'warn' | 'refuse' | 'off';
 
 // Ensure tests directory exists
 try {
@@ -21,12 +34,12 @@ try {
 /**
  * Sanitize file path to prevent directory traversal attacks
  */
-function sanitizePath(filePath: string): string {
+function sanitizePath(filePath: string, baseDir: string = TESTS_DIR): string {
   // Remove any path traversal attempts
   const normalized = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
-  // Ensure it stays within tests directory
-  const fullPath = path.join(TESTS_DIR, normalized);
-  const relativePath = path.relative(TESTS_DIR, fullPath);
+  // Ensure it stays within the base directory
+  const fullPath = path.join(baseDir, normalized);
+  const relativePath = path.relative(baseDir, fullPath);
   if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
     throw new Error('Invalid file path: directory traversal detected');
   }
@@ -34,9 +47,33 @@ function sanitizePath(filePath: string): string {
 }
 
 /**
- * Save a test file to the tests directory
+ * Make a path relative to the run's workspace. The model sometimes passes
+ * paths as shown in test reports ("runs/<id>/x.spec.ts") or from server/.
  */
-export async function saveTestFile(filePath: string, content: string): Promise<ToolExecutionResult> {
+function toWorkspacePath(filePath: string, workspace: RunWorkspace): string {
+  const workspaceDir = path.relative(TESTS_DIR, workspace.dir).split(path.sep).join('/');
+  const relativePath = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  for (const prefix of [`tests/${workspaceDir}/`, `${workspaceDir}/`, 'tests/']) {
+    if (relativePath.startsWith(prefix)) {
+      return relativePath.substring(prefix.length);
+    }
+  }
+  return relativePath;
+}
+
+/**
+ * Save a test file to the run's workspace (or the tests directory). Literal
+ * secrets known to the redactor are rewritten into process.env references.
+ * The file is type-checked and linted first, and refused with diagnostics.
+ * Brittle selectors are then rewritten to getBy* locators where the rewrite
+ * still type-checks, and the file's selector quality is reported. Specs that
+ * duplicate an existing test are reported, or refused (DUPLICATE_SPECS).
+ * Every write is recorded in the file's revision history. In a run, absolute
+ * URLs on the target are made relative to the run config's baseURL.
+ */
+export async function saveTestFile(filePath: string, content: string, context: ToolExecutionContext = {}): Promise<ToolExecutionResult> {
+  const { workspace, redactor, snapshots } = context;
+
   // Input validation
   if (!filePath || typeof filePath !== 'string') {
     return {
@@ -59,16 +96,53 @@ export async function saveTestFile(filePath: string, content: string): Promise<T
     };
   }
 
-  // Validate file extension
-  if (!filePath.endsWith('.spec.ts') && !filePath.endsWith('.spec.js') && !filePath.endsWith('.test.ts') && !filePath.endsWith('.test.js')) {
+  // Validate file extension: a spec, or a TypeScript support file such as a
+  // page object (not a setup file, which would replace the auth login)
+  const isSpec = /\.(spec|test)\.(ts|js)$/.test(filePath);
+  if (!isSpec && (!filePath.endsWith('.ts') || /\.(d|setup)\.ts$/.test(filePath))) {
     return {
       success: false,
-      error: 'Invalid file extension: must be .spec.ts, .spec.js, .test.ts, or .test.js'
+      error: 'Invalid file extension: must be .spec.ts, .spec.js, .test.ts, .test.js, or a .ts support file (e.g. pages/LoginPage.ts)'
     };
   }
 
+  const { code: redactedCode, envVars } = redactor
+    ? redactor.rewriteSecretsInCode(content, /\.ts$/.test(filePath))
+    : { code: content, envVars: [] as string[] };
+  const { code: checkedCode, rewritten: urlsRelativized } = workspace
+    ? relativizeUrls(filePath, redactedCode, workspace.targetUrl)
+    : { code: redactedCode, rewritten: 0 };
+
   try {
-    const safePath = sanitizePath(filePath);
+    const safePath = workspace
+      ? sanitizePath(toWorkspacePath(filePath, workspace), workspace.dir)
+      : sanitizePath(filePath);
+
+    const diagnostics = checkSpec(safePath, checkedCode);
+    if (diagnostics.length > 0) {
+      return {
+        success: false,
+        error: formatDiagnostics(filePath, diagnostics),
+        result: { diagnostics }
+      };
+    }
+
+    let { code, report: selectorQuality } = improveSelectors(filePath, checkedCode, snapshots);
+    if (code !== checkedCode && checkSpec(safePath, code).length > 0) {
+      // Keep the code as checked; its locators are reported as they are
+      ({ code, report: selectorQuality } = improveSelectors(filePath, checkedCode, snapshots, false));
+    }
+
+    const duplicates = isSpec && DUPLICATE_SPECS !== 'off' ? findDuplicates(filePath, code, safePath, workspace) : [];
+    if (duplicates.length > 0 && DUPLICATE_SPECS === 'refuse') {
+      return {
+        success: false,
+        error: `${filePath} was not saved - it duplicates existing tests:\n${formatDuplicates(duplicates)}\n` +
+          'Extend the existing test instead, or cover a different flow.',
+        result: { duplicates }
+      };
+    }
+
     const dir = path.dirname(safePath);
     
     // Ensure directory exists
@@ -76,7 +150,8 @@ export async function saveTestFile(filePath: string, content: string): Promise<T
       fs.mkdirSync(dir, { recursive: true });
     }
     
-    fs.writeFileSync(safePath, content, 'utf-8');
+    const previousContent = fs.existsSync(safePath) ? fs.readFileSync(safePath, 'utf-8') : undefined;
+    fs.writeFileSync(safePath, code, 'utf-8');
     
     // Verify file was written
     if (!fs.existsSync(safePath)) {
@@ -84,13 +159,29 @@ export async function saveTestFile(filePath: string, content: string): Promise<T
     }
 
     const stats = fs.statSync(safePath);
+    // An earlier run's version of the same spec counts as modified too
+    const revisions = getRevisionStore();
+    const historyName = revisions.nameOf(safePath, workspace?.targetUrl);
+    const replaced = previousContent !== undefined || revisions.has(historyName);
+    const revision = revisions.recordWrite(historyName, safePath, previousContent, code, { runId: workspace?.runId });
+    workspace?.recordFile(safePath, stats.size, replaced);
     
     return {
       success: true,
       result: {
         filePath: safePath,
         size: stats.size,
-        message: `Test file saved successfully: ${filePath} (${stats.size} bytes)`
+        revision: revision.revision,
+        revisionHistory: historyName,
+        message: `${isSpec ? 'Test' : 'Support'} file saved successfully: ${filePath} (${stats.size} bytes)` +
+          (selectorQuality.rewritten > 0 ? `; ${selectorQuality.rewritten} brittle selector(s) rewritten to getBy* locators` : '') +
+          (urlsRelativized > 0 ? `; ${urlsRelativized} absolute URL(s) made relative to baseURL` : '') +
+          (duplicates.length > 0 ? `. Warning - it duplicates existing tests:\n${formatDuplicates(duplicates)}` : ''),
+        ...(envVars.length > 0 && {
+          secretsReplaced: envVars.map(name => `process.env.${name}`)
+        }),
+        selectorQuality,
+        ...(duplicates.length > 0 && { duplicates })
       }
     };
   } catch (error: any) {
@@ -108,9 +199,32 @@ export async function saveTestFile(filePath: string, content: string): Promise<T
 }
 
 /**
- * Run Playwright tests with timeout
+ * Tests of a spec that duplicate tests in the suite (the tests folder outside
+ * runs/) or elsewhere in the run's workspace
  */
-export async function runPlaywrightTests(testFile?: string): Promise<ToolExecutionResult> {
+function findDuplicates(filePath: string, code: string, safePath: string, workspace?: RunWorkspace): DuplicateMatch[] {
+  const otherRuns = fs.existsSync(WORKSPACES_DIR)
+    ? fs.readdirSync(WORKSPACES_DIR).map(entry => path.join(WORKSPACES_DIR, entry)).filter(dir => dir !== workspace?.dir)
+    : [];
+  const existing = readSpecSources(TESTS_DIR, otherRuns, safePath);
+  return findDuplicateTests(filePath, code, existing, DUPLICATE_SIMILARITY);
+}
+
+function formatDuplicates(duplicates: DuplicateMatch[]): string {
+  return duplicates
+    .map(match => `- "${match.test}" matches ${match.duplicateOf.file} › "${match.duplicateOf.title}" (${Math.round(match.similarity * 100)}% of steps)`)
+    .join('\n');
+}
+
+/**
+ * Run Playwright tests with timeout (killed early if the signal aborts).
+ * With a workspace, runs only that run's tests (or one file in it).
+ * Results come from Playwright's JSON reporter, written next to the HTML one.
+ * With an auth session, specs start from its storageState after the setup project.
+ */
+export async function runPlaywrightTests(testFile?: string, context: ToolExecutionContext = {}): Promise<ToolExecutionResult> {
+  const { signal, workspace, auth, redactor } = context;
+
   // Validate testFile if provided
   if (testFile && typeof testFile === 'string') {
     // Basic path validation - no shell injection
@@ -122,83 +236,105 @@ export async function runPlaywrightTests(testFile?: string): Promise<ToolExecuti
     }
   }
 
+  let target = testFile;
+  if (workspace) {
+    try {
+      const fullPath = testFile
+        ? sanitizePath(toWorkspacePath(testFile, workspace), workspace.dir)
+        : workspace.dir;
+      target = path.relative(SERVER_DIR, fullPath).split(path.sep).join('/');
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Invalid testFile path: ${error.message}`
+      };
+    }
+  }
+
+  // A run's own config sets baseURL to its target (its specs use relative URLs)
+  const configFile = workspace ? path.join(workspace.dir, RUN_CONFIG_FILE) : undefined;
+  const runConfig = configFile && fs.existsSync(configFile)
+    ? path.relative(SERVER_DIR, configFile).split(path.sep).join('/')
+    : undefined;
+
+  // One report file per execution so concurrent runs don't overwrite each other
+  const reportPath = path.join(os.tmpdir(), `playwright-report-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.json`);
+  const execOptions = {
+    cwd: SERVER_DIR,
+    maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+    timeout: PLAYWRIGHT_TIMEOUT,
+    signal,
+    env: {
+      ...process.env,
+      ...redactor?.env(), // secrets that saveTestFile turned into process.env references
+      ...auth?.env,
+      ...(runConfig && { BASE_URL: new URL(workspace!.targetUrl).origin }),
+      PLAYWRIGHT_JSON_OUTPUT_FILE: reportPath,
+      PLAYWRIGHT_HTML_OPEN: 'never' // never block on serving the HTML report
+    }
+  };
+
   try {
-    const cmd = testFile
-      ? `npx playwright test "${testFile.replace(/"/g, '\\"')}"`
-      : 'npx playwright test';
-
-    const { stdout, stderr } = await execAsync(cmd, {
-      cwd: path.join(__dirname, '..'),
-      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-      timeout: PLAYWRIGHT_TIMEOUT
-    });
-    
-    // Parse test results for summary
-    const passedMatch = stdout.match(/(\d+) passed/);
-    const failedMatch = stdout.match(/(\d+) failed/);
-    const skippedMatch = stdout.match(/(\d+) skipped/);
-    
+    const configArg = runConfig ? ` --config "${runConfig}"` : '';
+    const cmd = target
+      ? `npx playwright test${configArg} "${target.replace(/"/g, '\\"')}" --reporter=html,json`
+      : `npx playwright test${configArg} --reporter=html,json`;
+
+    const { stdout, stderr } = await execAsync(cmd, execOptions);
+    const report = readJsonReport(reportPath, TESTS_DIR);
+
     return {
       success: true,
-      result: {
-        output: stdout,
-        stderr: stderr || undefined,
-        summary: {
-          passed: passedMatch ? parseInt(passedMatch[1]) : 0,
-          failed: failedMatch ? parseInt(failedMatch[1]) : 0,
-          skipped: skippedMatch ? parseInt(skippedMatch[1]) : 0
-        }
-      }
+      result: report
+        ? { ...report, stderr: stderr || undefined }
+        : { output: stdout, stderr: stderr || undefined }
     };
   } catch (error: any) {
     const output = error.stdout || '';
     const errorOutput = error.stderr || '';
+    const report = readJsonReport(reportPath, TESTS_DIR);
     
     // Check for specific error types
     let errorMessage = 'Test execution failed';
     
-    if (error.killed) {
+    if (error.name === 'AbortError') {
+      errorMessage = 'Test execution cancelled';
+    } else if (error.killed) {
       errorMessage = `Test execution timed out after ${PLAYWRIGHT_TIMEOUT / 1000}s`;
     } else if (error.code === 'ENOENT') {
       errorMessage = 'Playwright not found. Run: npx playwright install';
     } else if (errorOutput.includes('browserType.launch')) {
       errorMessage = 'Browser launch failed. Try: npx playwright install chromium';
-    } else if (error.code) {
+    } else if (report && report.summary.failed > 0) {
       // Playwright test failures return exit code 1
-      const failedMatch = output.match(/(\d+) failed/);
-      if (failedMatch) {
-        errorMessage = `${failedMatch[1]} test(s) failed`;
-      }
+      errorMessage = `${report.summary.failed} test(s) failed`;
+    } else if (report && report.errors.length > 0) {
+      errorMessage = `Test run failed: ${report.errors[0].split('\n')[0]}`;
     }
     
-    // Parse any available results even on failure
-    const passedMatch = output.match(/(\d+) passed/);
-    const failedMatch = output.match(/(\d+) failed/);
-    
+    // Without a report (Playwright failed before reporting), fall back to raw output
     return {
       success: false,
       error: errorMessage,
-      result: {
-        output: output + (errorOutput ? '\n' + errorOutput : ''),
-        summary: {
-          passed: passedMatch ? parseInt(passedMatch[1]) : 0,
-          failed: failedMatch ? parseInt(failedMatch[1]) : 0
-        }
-      }
+      result: report || { output: output + (errorOutput ? '\n' + errorOutput : '') }
     };
+  } finally {
+    fs.rmSync(reportPath, { force: true });
   }
 }
 
 /**
- * List all test files in the tests directory
+ * List the test files in the run's workspace (or the whole tests directory)
  */
-export async function listTestFiles(): Promise<ToolExecutionResult> {
+export async function listTestFiles(workspace?: RunWorkspace): Promise<ToolExecutionResult> {
+  const baseDir = workspace ? workspace.dir : TESTS_DIR;
+
   try {
-    const entries = fs.readdirSync(TESTS_DIR, { recursive: true });
+    const entries = fs.existsSync(baseDir) ? fs.readdirSync(baseDir, { recursive: true }) : [];
     const files = entries
       .filter((entry): entry is string => typeof entry === 'string')
       .filter((file) => file.endsWith('.spec.ts') || file.endsWith('.spec.js'))
-      .map((file) => path.join(TESTS_DIR, file));
+      .map((file) => path.join(baseDir, file));
     
     return {
       success: true,
@@ -216,19 +352,82 @@ export async function listTestFiles(): Promise<ToolExecutionResult> {
 }
 
 /**
- * Get custom tools that can be exposed to the LLM
+ * Coverage of the run's API schema by the specs saved so far
+ */
+export async function getApiCoverage(apiSpec?: ApiSpec, workspace?: RunWorkspace): Promise<ToolExecutionResult> {
+  if (!apiSpec) {
+    return { success: false, error: 'No OpenAPI/Swagger schema was uploaded for this run' };
+  }
+
+  const listed = await listTestFiles(workspace);
+  if (!listed.success) return listed;
+
+  const baseDir = workspace ? workspace.dir : TESTS_DIR;
+  try {
+    const files = (listed.result.files as string[]).map(file => ({
+      path: path.relative(baseDir, file).split(path.sep).join('/'),
+      content: fs.readFileSync(file, 'utf-8')
+    }));
+    const coverage = computeApiCoverage(apiSpec, files);
+    return {
+      success: true,
+      result: {
+        message: `${coverage.covered}/${coverage.total} operations have tests`,
+        uncovered: coverage.operations.filter(op => op.files.length === 0).map(op => op.id),
+        ...coverage
+      }
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: `Failed to compute API coverage: ${error.message}`
+    };
+  }
+}
+
+/**
+ * Full details of one operation of the run's API schema
+ */
+export function getApiOperation(operationId: string, apiSpec?: ApiSpec): ToolExecutionResult {
+  if (!apiSpec) {
+    return { success: false, error: 'No OpenAPI/Swagger schema was uploaded for this run' };
+  }
+  const operation = apiSpec.operations.find(op => op.id === operationId);
+  if (!operation) {
+    return { success: false, error: `Unknown operation "${operationId}". Use the ids shown in brackets in the API schema.` };
+  }
+  return { success: true, result: { baseUrl: apiSpec.baseUrl, ...operation } };
+}
+
+// Only offered to the model when the run has an API schema
+export const API_TOOL_NAMES = ['getApiCoverage', 'getApiOperation'];
+
+/**
+ * Get custom tools that can be exposed to the LLM: the built-in ones, then
+ * the tools loaded from plugins
  */
 export function getCustomTools(): CustomTool[] {
+  return [...getBuiltinTools(), ...getPluginTools()];
+}
+
+/**
+ * Names of the built-in tools (plugins may not reuse them)
+ */
+export function getBuiltinToolNames(): string[] {
+  return getBuiltinTools().map(tool => tool.name);
+}
+
+function getBuiltinTools(): CustomTool[] {
   return [
     {
       name: 'saveTestFile',
-      description: 'Save a Playwright test file to the tests directory. The filePath should be relative to the tests directory (e.g., "login.spec.ts"). The content should be valid TypeScript/JavaScript Playwright test code.',
+      description: 'Save a Playwright test file, or a TypeScript support file such as a page object (e.g., "pages/LoginPage.ts"), to this run\'s test folder. The filePath should be relative to that folder (e.g., "login.spec.ts"). The content should be valid TypeScript/JavaScript Playwright code; it is type-checked before saving.',
       inputSchema: {
         type: 'object',
         properties: {
           filePath: {
             type: 'string',
-            description: 'Relative path to the test file (e.g., "login.spec.ts" or "auth/login.spec.ts")'
+            description: 'Relative path to the file (e.g., "login.spec.ts", "auth/login.spec.ts" or "pages/LoginPage.ts")'
           },
           content: {
             type: 'string',
@@ -237,37 +436,66 @@ export function getCustomTools(): CustomTool[] {
         },
         required: ['filePath', 'content']
       },
-      execute: async (args: { filePath: string; content: string }) => {
-        return await saveTestFile(args.filePath, args.content);
+      execute: async (args: { filePath: string; content: string }, context?: ToolExecutionContext) => {
+        return await saveTestFile(args.filePath, args.content, context);
       }
     },
     {
       name: 'runPlaywrightTests',
-      description: 'Execute Playwright tests. Optionally provide a single testFile (relative to server/, e.g. "tests/login.spec.ts") to avoid running unrelated failing suites.',
+      description: 'Execute the Playwright tests saved in this run. Optionally provide a single testFile (the filePath given to saveTestFile, e.g. "login.spec.ts") to run just that spec.',
       inputSchema: {
         type: 'object',
         properties: {
           testFile: {
             type: 'string',
-            description: 'Optional single test file path relative to server/ (e.g., "tests/login.spec.ts")'
+            description: 'Optional single test file, as saved with saveTestFile (e.g., "login.spec.ts")'
           }
         },
         required: []
       },
-      execute: async (args: { testFile?: string }) => {
-        return await runPlaywrightTests(args?.testFile);
+      execute: async (args: { testFile?: string }, context?: ToolExecutionContext) => {
+        return await runPlaywrightTests(args?.testFile, context);
       }
     },
     {
       name: 'listTestFiles',
-      description: 'List all test files that have been generated in the tests directory.',
+      description: 'List the test files generated in this run.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      },
+      execute: async (_args: any, context?: ToolExecutionContext) => {
+        return await listTestFiles(context?.workspace);
+      }
+    },
+    {
+      name: 'getApiCoverage',
+      description: 'Show which operations of the uploaded API schema the saved specs test (tagged "[operationId]" in a test title, or calling the operation\'s method and path), and which are still uncovered.',
       inputSchema: {
         type: 'object',
         properties: {},
         required: []
       },
-      execute: async () => {
-        return await listTestFiles();
+      execute: async (_args: any, context?: ToolExecutionContext) => {
+        return await getApiCoverage(context?.apiSpec, context?.workspace);
+      }
+    },
+    {
+      name: 'getApiOperation',
+      description: 'Get the full details of an API schema operation: parameters, request body schema, response schemas and auth.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: {
+            type: 'string',
+            description: 'Operation id as shown in brackets in the API schema (e.g., "listPets" or "GET /pets")'
+          }
+        },
+        required: ['operationId']
+      },
+      execute: async (args: { operationId: string }, context?: ToolExecutionContext) => {
+        return getApiOperation(args?.operationId, context?.apiSpec);
       }
     }
   ];
@@ -1,12 +1,38 @@
+import { RunController } from './runControl';
+import { RunWorkspace, WorkspaceFile } from './workspace';
+import { Redactor } from './redaction';
+import { ApiCoverage, ApiSpec } from './openapi';
+import { SelectorQualityReport, SnapshotIndex } from './selectorQuality';
+
 export interface AgentRequest {
   url: string;
   schema?: string;
+  scope?: CrawlScope;
+  authProfile?: string; // name of a profile in AUTH_PROFILES_FILE to log in with
+  outputMode?: OutputMode;
+}
+
+// "page-objects": page-object classes in pages/, called by the specs
+export type OutputMode = 'specs' | 'page-objects';
+
+/**
+ * Where a run may navigate. Patterns are globs ("*" within a path segment,
+ * "**" across segments; a leading "/" matches path and query) or "/regex/flags"
+ * with regex syntax or flags, so "/shop/" is still a path glob.
+ */
+export interface CrawlScope {
+  allowedOrigins?: string[]; // "https://app.example.com" or host globs like "*.example.com"; default: the target's origin
+  include?: string[]; // if set, URLs must match one of these
+  exclude?: string[];
+  maxPathDepth?: number; // max path segments (not link hops), e.g. 2 allows /shop/items but not /shop/items/42
 }
 
 export interface LogMessage {
   type: 'info' | 'success' | 'error' | 'warning' | 'agent';
   message: string;
   timestamp: string;
+  id?: number; // SSE event id, assigned by the run registry
+  approval?: { id: string; status: 'pending' | 'approved' | 'denied' }; // safety policy approval this log is about
 }
 
 export interface ToolExecutionResult {
@@ -22,14 +48,146 @@ export interface TestExecutionResult {
   testFiles?: string[];
 }
 
+export interface CrawledPage {
+  url: string;
+  title: string;
+  depth: number; // link hops from the start URL
+  forms: Array<{ action: string; method: string; fields: string[] }>;
+  buttons: string[];
+  links: string[]; // same-origin links, normalized
+  error?: string;
+}
+
+export interface SiteMap {
+  startUrl: string;
+  maxDepth: number;
+  pages: CrawledPage[];
+  truncated: boolean; // page budget ran out before the queue did
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted' | 'flaky';
+
+export interface TestCaseResult {
+  title: string; // describe titles and test title, joined with " › "
+  file: string;
+  line: number;
+  project: string;
+  status: TestCaseStatus;
+  durationMs: number; // across all retries
+  retries: number;
+  error?: {
+    message: string;
+    stack?: string;
+    location?: { file: string; line: number; column: number };
+  };
+  attachments: { name: string; contentType: string; path: string }[];
+}
+
+export interface TestRunReport {
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    flaky: number;
+    skipped: number;
+    durationMs: number;
+  };
+  tests: TestCaseResult[];
+  errors: string[]; // errors outside any test, e.g. a spec that fails to compile
+}
+
+export interface TestRepairResult {
+  file: string;
+  title: string;
+  attempts: number;
+  status: 'healed' | 'unhealed';
+}
+
 export interface AgentResponse {
   success: boolean;
   message?: string;
   testFiles?: string[];
+  files?: WorkspaceFile[]; // the files the run wrote, created or modified
+  testResults?: TestRunReport; // from the last runPlaywrightTests call
+  repairs?: TestRepairResult[]; // every test that failed, healed or not
+  apiCoverage?: ApiCoverage; // operations of the uploaded API schema that got tests
+  selectorQuality?: SelectorQualityReport[]; // one per saved file, as last saved
   error?: string;
   errorCode?: string;
 }
 
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RunRecord {
+  id: string;
+  url: string;
+  schema?: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  queuePosition?: number;
+  paused?: boolean;
+  logs: LogMessage[];
+  lastEventId: number;
+  result?: AgentResponse;
+}
+
+// Event replayed on a run's SSE stream: a log message or the final result
+export type RunEvent =
+  | (LogMessage & { id: number })
+  | ({ type: 'complete'; id: number } & AgentResponse);
+
+export interface RunSummary {
+  id: string;
+  url: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  queuePosition?: number;
+  paused?: boolean;
+  logCount: number;
+  success?: boolean;
+  errorCode?: string;
+}
+
+export interface ToolExecutionContext {
+  signal?: AbortSignal;
+  workspace?: RunWorkspace; // where the run's generated files go
+  auth?: AuthSession; // set when the run logs in with an auth profile
+  redactor?: Redactor; // the run's secrets, for rewriting them out of generated specs
+  apiSpec?: ApiSpec; // the run's parsed OpenAPI/Swagger schema
+  snapshots?: SnapshotIndex; // elements from the run's snapshots, for rewriting selectors
+}
+
+/**
+ * A run's login: its setup spec, the storageState it saves, and the
+ * QA_AUTH_* environment Playwright runs need for both
+ */
+export interface AuthSession {
+  profile: string;
+  setupFile: string;
+  stateFile: string;
+  configFile: string; // the run's playwright.config.ts, which runs the setup project
+  baseURL: string; // the target's origin, which the setup spec's relative URLs resolve against
+  env: Record<string, string>;
+}
+
+export interface CassetteOptions {
+  mode: 'record' | 'replay';
+  path: string;
+}
+
+export interface RunAgentOptions {
+  runId?: string;
+  signal?: AbortSignal;
+  control?: RunController;
+  onQueuePosition?: (position: number) => void; // 0 once the run has a browser session
+  cassette?: CassetteOptions; // record this run, or replay a recorded one offline
+  scope?: CrawlScope;
+  authProfile?: string;
+  outputMode?: OutputMode;
+}
+
 export interface CustomTool {
   name: string;
   description: string;
@@ -38,5 +196,5 @@ export interface CustomTool {
     properties: Record<string, any>;
     required?: string[];
   };
-  execute: (args: any) => Promise<ToolExecutionResult>;
+  execute: (args: any, context?: ToolExecutionContext) => Promise<ToolExecutionResult>;
 }
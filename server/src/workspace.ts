@@ -0,0 +1,150 @@
+/**
+ * Per-run output workspaces
+ *
+ * This module provides:
+ * - One directory per run under tests/runs/<run id> for the specs it generates
+ * - Tracking of the files a run creates
+ * - A manifest.json per run with the target, model, files and result
+ * - Other JSON artifacts of the run, such as its site map
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentResponse } from './types';
+
+export const WORKSPACES_DIR = path.join(__dirname, '..', 'tests', 'runs');
+const MANIFEST_FILE = 'manifest.json';
+
+export interface WorkspaceFile {
+  path: string; // relative to the workspace
+  size: number;
+  savedAt: string;
+  status: 'created' | 'modified'; // modified: the file, or an earlier run's version of the spec, existed before the run first wrote it
+  writes: number; // how many times the run wrote it
+}
+
+export interface RunManifest {
+  runId: string;
+  targetUrl: string;
+  provider?: string;
+  model?: string;
+  startedAt: string;
+  finishedAt: string;
+  files: WorkspaceFile[];
+  result: {
+    success: boolean;
+    error?: string;
+    errorCode?: string;
+    testSummary?: NonNullable<AgentResponse['testResults']>['summary'];
+  };
+}
+
+/**
+ * The output directory of a single run
+ */
+export class RunWorkspace {
+  public readonly runId: string;
+  public readonly dir: string;
+  public readonly targetUrl: string;
+  private readonly startedAt = new Date().toISOString();
+  private files = new Map<string, WorkspaceFile>();
+  private provider?: string;
+  private model?: string;
+
+  constructor(runId: string, targetUrl: string) {
+    this.runId = runId;
+    this.targetUrl = targetUrl;
+    // Run ids come from the server, but keep them to one path segment anyway
+    this.dir = path.join(WORKSPACES_DIR, runId.replace(/[^\w.-]/g, '_'));
+  }
+
+  /**
+   * Path of the workspace relative to the server directory (for commands)
+   */
+  public get relativeDir(): string {
+    return path.relative(path.join(__dirname, '..'), this.dir).split(path.sep).join('/');
+  }
+
+  public setModel(provider: string, model: string): void {
+    this.provider = provider;
+    this.model = model;
+  }
+
+  /**
+   * Record a file written into the workspace (saving it again updates it).
+   * existed tells whether the write replaced a file or an earlier run's
+   * version of it.
+   */
+  public recordFile(fullPath: string, size: number, existed = false): void {
+    const relativePath = path.relative(this.dir, fullPath).split(path.sep).join('/');
+    const recorded = this.files.get(relativePath);
+    this.files.set(relativePath, {
+      path: relativePath,
+      size,
+      savedAt: new Date().toISOString(),
+      status: recorded ? recorded.status : existed ? 'modified' : 'created',
+      writes: (recorded?.writes ?? 0) + 1
+    });
+  }
+
+  /**
+   * The files this run wrote, with whether it created or modified each
+   */
+  public getFiles(): WorkspaceFile[] {
+    return Array.from(this.files.values());
+  }
+
+  /**
+   * Absolute paths of the files this run created
+   */
+  public listFiles(): string[] {
+    return Array.from(this.files.keys()).map(file => path.join(this.dir, file));
+  }
+
+  /**
+   * Source of the specs and support files this run wrote (what a test run
+   * executes), skipping files that are gone. The generated config and auth
+   * setup are left out: they come from the server, not the model.
+   */
+  public readSources(): string {
+    return this.listFiles()
+      .filter(file => /\.(ts|js)$/.test(file) && !/(playwright\.config|\.setup)\.ts$/.test(file) && fs.existsSync(file))
+      .map(file => fs.readFileSync(file, 'utf-8'))
+      .join('\n');
+  }
+
+  /**
+   * Write a JSON artifact of the run (e.g. the crawl's site map) into the workspace
+   */
+  public writeArtifact(fileName: string, data: unknown): void {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(path.join(this.dir, fileName), JSON.stringify(data, null, 2));
+    } catch (error: any) {
+      console.error(`Failed to write ${fileName} for run ${this.runId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write manifest.json describing the run and its output
+   */
+  public writeManifest(result: AgentResponse): void {
+    const manifest: RunManifest = {
+      runId: this.runId,
+      targetUrl: this.targetUrl,
+      provider: this.provider,
+      model: this.model,
+      startedAt: this.startedAt,
+      finishedAt: new Date().toISOString(),
+      files: this.getFiles(),
+      result: {
+        success: result.success,
+        error: result.error,
+        errorCode: result.errorCode,
+        testSummary: result.testResults?.summary
+      }
+    };
+
+    this.writeArtifact(MANIFEST_FILE, manifest);
+  }
+}